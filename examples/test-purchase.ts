@@ -7,103 +7,72 @@
  *      (needs testnet USDC from https://faucet.circle.com/)
  *
  * Usage:
- *   TEST_PRIVATE_KEY=0x... npx tsx test-purchase.ts
+ *   TEST_PRIVATE_KEY=0x... npx tsx examples/test-purchase.ts
  */
 
-import { wrapFetchWithPayment } from "@x402/fetch";
-import { x402Client } from "@x402/core/client";
-import { registerExactEvmScheme } from "@x402/evm/exact/client";
 import { privateKeyToAccount } from "viem/accounts";
+import { createGatewayClient, isGatewayError } from "../src/client.js";
 
 const privateKey = process.env.TEST_PRIVATE_KEY;
 if (!privateKey) {
   console.error("Set TEST_PRIVATE_KEY env var to a funded Base Sepolia wallet private key.");
-  console.error("Usage: TEST_PRIVATE_KEY=0x... npx tsx test-purchase.ts");
+  console.error("Usage: TEST_PRIVATE_KEY=0x... npx tsx examples/test-purchase.ts");
   process.exit(1);
 }
 
 const account = privateKeyToAccount(privateKey as `0x${string}`);
-
-const client = new x402Client();
-registerExactEvmScheme(client, { signer: account });
-
-const x402Fetch = wrapFetchWithPayment(fetch, client);
-
 const SERVER = process.env.SERVER_URL ?? "http://localhost:4021";
-const DURATION = "1h"; // cheapest tier ($5)
+const TIER = { assetType: "crypto", channel: "200ms", duration: "1h" };
 const TICKER = "BTC-USD";
 
+const gateway = createGatewayClient({ baseUrl: SERVER, signer: account });
+
 console.log(`Wallet:   ${account.address}`);
 console.log(`Server:   ${SERVER}`);
-console.log(`Purchase: ${DURATION} of ${TICKER}\n`);
+console.log(`Purchase: ${TIER.duration} of ${TICKER} (${TIER.assetType}, ${TIER.channel})\n`);
 
 console.log("Sending purchase request (x402 will handle payment automatically)...\n");
 
-const res = await x402Fetch(`${SERVER}/v1/purchase/${DURATION}`, {
-  method: "POST",
-  headers: { "Content-Type": "application/json" },
-  body: JSON.stringify({ ticker: TICKER }),
-});
-
-console.log(`HTTP ${res.status}\n`);
-
-if (!res.ok) {
-  console.error("Purchase failed:", await res.text());
+let data;
+try {
+  data = await gateway.purchase(TIER, { ticker: TICKER });
+} catch (err) {
+  console.error("Purchase failed:", isGatewayError(err) ? `${err.code} — ${err.message}` : err);
   process.exit(1);
 }
 
-const data = await res.json();
 console.log("Purchase successful!\n");
 console.log(JSON.stringify(data, null, 2));
 
 // --- Optional WebSocket verification ---
 const VERIFY_WS = process.env.VERIFY_WS !== "false"; // enabled by default, set VERIFY_WS=false to skip
 
-if (VERIFY_WS && data.pythPro?.websocketUrls?.length && data.pythPro?.accessToken) {
+if (VERIFY_WS) {
   console.log("\n--- WebSocket Verification ---");
-  const wsUrl = data.pythPro.websocketUrls[0];
-  console.log(`Connecting to: ${wsUrl}`);
-
-  const ws = new WebSocket(wsUrl, {
-    headers: { Authorization: `Bearer ${data.pythPro.accessToken}` },
-  });
-
-  const result = await new Promise<{ ok: boolean; message?: string }>((resolve) => {
-    const timeout = setTimeout(() => {
-      ws.close();
-      resolve({ ok: false, message: "Timeout (10s) — no message received" });
-    }, 10_000);
-
-    ws.onopen = () => {
-      console.log("Connected. Sending subscribe message...");
-      ws.send(JSON.stringify(data.pythPro.subscribe));
-    };
-
-    ws.onmessage = (event) => {
-      const msg = typeof event.data === "string" ? event.data : event.data.toString();
-      clearTimeout(timeout);
-      ws.close();
-      resolve({ ok: true, message: msg });
-    };
-
-    ws.onerror = (event) => {
-      clearTimeout(timeout);
-      resolve({ ok: false, message: `WebSocket error: ${(event as any).message ?? "unknown"}` });
-    };
-  });
+  console.log(`Connecting to: ${data.pythPro.websocketUrls[0]}`);
+
+  const signal = AbortSignal.timeout(10_000);
+  let first: unknown;
+  try {
+    for await (const msg of gateway.stream(data.pythPro, { signal })) {
+      if (msg.type === "streamUpdated" || msg.type === "subscriptionError") {
+        first = msg;
+        break;
+      }
+    }
+  } catch (err) {
+    console.error(`WebSocket verification FAILED: ${(err as Error).message}`);
+  }
 
-  if (result.ok) {
+  if (first && (first as { type: string }).type === "streamUpdated") {
     console.log("WebSocket verification PASSED");
-    try {
-      const parsed = JSON.parse(result.message!);
-      console.log(`First message: ${JSON.stringify(parsed).slice(0, 200)}...`);
-    } catch {
-      console.log(`First message (raw): ${result.message!.slice(0, 200)}...`);
-    }
-  } else {
-    console.error(`WebSocket verification FAILED: ${result.message}`);
+    console.log(`First message: ${JSON.stringify(first).slice(0, 200)}...`);
+  } else if (first) {
+    console.error(`WebSocket verification FAILED: ${JSON.stringify(first)}`);
+  } else if (signal.aborted) {
+    console.error("WebSocket verification FAILED: Timeout (10s) — no price update received");
   }
-} else if (!VERIFY_WS) {
+} else {
   console.log("\n--- WebSocket verification skipped (VERIFY_WS=false) ---");
 }
 
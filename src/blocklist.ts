@@ -0,0 +1,98 @@
+import path from "node:path";
+import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+import { createJsonlStore } from "./jsonl.js";
+
+const logger = createLogger("blocklist");
+
+/** A wallet barred from paying for new purchases or renewals. */
+export interface BlockedWallet {
+  wallet: string;
+  reason: string;
+  blockedAt: string;
+}
+
+/** Storage backend for blocked wallets. Wallets compare case-insensitively. */
+export interface BlocklistStore {
+  block(entry: BlockedWallet): Promise<void>;
+  /** Returns false when the wallet was not blocked. */
+  unblock(wallet: string): Promise<boolean>;
+  get(wallet: string): Promise<BlockedWallet | undefined>;
+  list(): Promise<BlockedWallet[]>;
+}
+
+/** Blocklist kept in memory only; blocks end with the process. */
+export function createMemoryBlocklist(): BlocklistStore {
+  const entries = new Map<string, BlockedWallet>();
+
+  return {
+    async block(entry) {
+      entries.set(entry.wallet.toLowerCase(), { ...entry });
+    },
+    async unblock(wallet) {
+      return entries.delete(wallet.toLowerCase());
+    },
+    async get(wallet) {
+      const entry = entries.get(wallet.toLowerCase());
+      return entry && { ...entry };
+    },
+    async list() {
+      return [...entries.values()].map((e) => ({ ...e }));
+    },
+  };
+}
+
+/** A line of the blocklist file: a block, or an unblock when `unblockedAt` is set. */
+type BlocklistLine = BlockedWallet | { wallet: string; unblockedAt: string };
+
+/** Blocks and unblocks persisted to a JSON Lines file, applied in order on load. */
+export async function createFileBlocklist(filePath: string): Promise<BlocklistStore> {
+  const memory = createMemoryBlocklist();
+  const file = await createJsonlStore<BlocklistLine>(filePath, async (entry) => {
+    if ("unblockedAt" in entry) await memory.unblock(entry.wallet);
+    else await memory.block(entry);
+  });
+  if (file.replayed > 0) {
+    logger.info({ filePath, wallets: (await memory.list()).length }, "Blocklist loaded");
+  }
+
+  return {
+    async block(entry) {
+      await memory.block(entry);
+      await file.append(entry);
+    },
+    async unblock(wallet) {
+      const removed = await memory.unblock(wallet);
+      if (removed) await file.append({ wallet, unblockedAt: new Date().toISOString() });
+      return removed;
+    },
+    get: memory.get,
+    list: memory.list,
+  };
+}
+
+const DEFAULT_BLOCKLIST_FILE = path.resolve(import.meta.dirname, "..", "data", "blocked.jsonl");
+
+let store: BlocklistStore = createMemoryBlocklist();
+
+/** Open the blocklist next to the purchase ledger. Call once at startup. */
+export async function initBlocklist(): Promise<void> {
+  if (config.LEDGER_DRIVER === "memory") {
+    store = createMemoryBlocklist();
+    return;
+  }
+  store = await createFileBlocklist(
+    config.LEDGER_FILE
+      ? path.join(path.dirname(config.LEDGER_FILE), "blocked.jsonl")
+      : DEFAULT_BLOCKLIST_FILE
+  );
+}
+
+/** Swap the blocklist backend (e.g. an in-memory store in tests). */
+export function setBlocklist(next: BlocklistStore): void {
+  store = next;
+}
+
+export function getBlocklist(): BlocklistStore {
+  return store;
+}
@@ -0,0 +1,176 @@
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { WebSocketServer } from "ws";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createApp } from "./server.js";
+import { createLocalFacilitator } from "./facilitator.js";
+import { createFixtureSymbolsSource, initSymbols } from "./symbols.js";
+import { createMemoryStore } from "./ledger.js";
+import { createMemoryCreditStore } from "./credits.js";
+import { computePrice } from "./pricing.js";
+import { buildSubscribeMessage } from "./routes/purchase.js";
+import { createGatewayClient, isGatewayError, type StreamAccess } from "./client.js";
+
+const TIER = { assetType: "crypto", channel: "200ms", duration: "1h" };
+
+let server: http.Server;
+let baseUrl: string;
+const relays: WebSocketServer[] = [];
+
+beforeAll(async () => {
+  const app = createApp({
+    facilitator: createLocalFacilitator(),
+    ledger: createMemoryStore(),
+    credits: createMemoryCreditStore(),
+    symbolsSource: createFixtureSymbolsSource(
+      path.resolve(import.meta.dirname, "fixtures", "symbols.json")
+    ),
+  });
+  await initSymbols();
+  server = http.createServer(app);
+  server.once("close", app.close);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  for (const relay of relays) relay.close();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+/** A stand-in relay on a free port; `onSubscribe` runs for each subscribe message received. */
+async function fakeRelay(
+  onSubscribe: (send: (msg: unknown) => void, close: (code: number) => void) => void,
+  options: { status?: number } = {}
+): Promise<{ url: string; subscribes: number }> {
+  const relay = new WebSocketServer({
+    port: 0,
+    verifyClient: (_info, done) => (options.status ? done(false, options.status) : done(true)),
+  });
+  relays.push(relay);
+  await new Promise((resolve) => relay.once("listening", resolve));
+  const result = {
+    url: `ws://127.0.0.1:${(relay.address() as AddressInfo).port}`,
+    subscribes: 0,
+  };
+  relay.on("connection", (ws) => {
+    ws.on("message", () => {
+      result.subscribes++;
+      onSubscribe(
+        (msg) => ws.send(JSON.stringify(msg)),
+        (code) => ws.close(code)
+      );
+    });
+  });
+  return result;
+}
+
+function access(websocketUrls: string[]): StreamAccess {
+  return {
+    accessToken: "token",
+    tokenId: "id",
+    websocketUrls,
+    authMethod: "",
+    subscribe: buildSubscribeMessage([1], "fixed_rate@200ms"),
+  };
+}
+
+describe("client", () => {
+  it("lists pricing, quotes a bundle and buys it", async () => {
+    const client = createGatewayClient({
+      baseUrl,
+      signer: privateKeyToAccount(generatePrivateKey()),
+    });
+    const pricing = await client.getPricing({ ticker: "BTC-USD,ETH-USD", channel: "200ms" });
+    const row = pricing.bundleQuote!.pricing.find((r) => r.duration === "1h")!;
+    expect(row.price).toBe(computePrice("crypto", "200ms", "1h", 2)!.formatted);
+
+    const body = { tickers: ["BTC-USD", "ETH-USD"] };
+    const quote = await client.quote(row, body);
+    expect(quote.price).toBe(row.price);
+
+    const purchase = await client.purchase(row, body);
+    expect(purchase.feedIds).toEqual([1, 2]);
+    expect(purchase.pricePaid).toBe(row.price);
+    expect(purchase.pythPro.subscribe.priceFeedIds).toEqual([1, 2]);
+
+    const verification = await client.verifyReceipt(purchase.receipt!);
+    expect(verification).toMatchObject({
+      valid: true,
+      claims: { purchaseId: purchase.pythPro.tokenId, feedIds: [1, 2], price: row.price },
+    });
+  });
+
+  it("tops up and pays from the balance, then falls back to x402", async () => {
+    const client = createGatewayClient({
+      baseUrl,
+      signer: privateKeyToAccount(generatePrivateKey()),
+    });
+    const price = computePrice("crypto", "200ms", "1h")!.dollars;
+    expect(await client.topUp(price)).toMatchObject({ balance: `$${price.toFixed(2)}` });
+    await vi.waitFor(async () => {
+      expect((await client.getBalance()).balance).toBe(`$${price.toFixed(2)}`);
+    });
+
+    const fromBalance = await client.purchase(TIER, { ticker: "BTC-USD" }, { useBalance: true });
+    expect(fromBalance.payment.network).toBe("credit");
+    expect((await client.getBalance()).balance).toBe("$0.00");
+
+    const onChain = await client.purchase(TIER, { ticker: "BTC-USD" }, { useBalance: true });
+    expect(onChain.payment.network).toBe("eip155:84532");
+  });
+
+  it("throws the gateway's error code", async () => {
+    const client = createGatewayClient({ baseUrl });
+    const err = await client.quote(TIER, { ticker: "NOPE-USD" }).catch((e) => e);
+    expect(isGatewayError(err)).toBe(true);
+    expect(err).toMatchObject({ status: 400, code: "INVALID_TICKER" });
+    await expect(client.purchase(TIER, { ticker: "BTC-USD" })).rejects.toThrow(/signer/);
+  });
+});
+
+describe("client stream", () => {
+  const client = createGatewayClient({ baseUrl: "http://unused" });
+  const collect = async (iterable: AsyncIterable<unknown>) => {
+    const messages: unknown[] = [];
+    for await (const msg of iterable) messages.push(msg);
+    return messages;
+  };
+
+  it("fails over to the next URL, re-subscribes and ends at expiry", async () => {
+    const down = await fakeRelay((_send, close) => close(1011));
+    const up = await fakeRelay((send, close) => {
+      send({ type: "subscribed", subscriptionId: 1 });
+      send({ type: "streamUpdated", subscriptionId: 1 });
+      close(4001);
+    });
+    const messages = await collect(
+      client.stream(access([down.url, up.url]), { retryDelayMs: 10 })
+    );
+    expect(messages.map((m) => (m as { type: string }).type)).toEqual([
+      "subscribed",
+      "streamUpdated",
+    ]);
+    expect([down.subscribes, up.subscribes]).toEqual([1, 1]);
+  });
+
+  it("stops on revocation, refused tokens and exhausted retries", async () => {
+    const revoked = await fakeRelay((_send, close) => close(4003));
+    await expect(collect(client.stream(access([revoked.url])))).rejects.toMatchObject({
+      code: "PURCHASE_REVOKED",
+    });
+
+    const refused = await fakeRelay(() => {}, { status: 401 });
+    await expect(collect(client.stream(access([refused.url])))).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+    });
+
+    const down = await fakeRelay((_send, close) => close(1011));
+    await expect(
+      collect(client.stream(access([down.url]), { maxRetries: 2, retryDelayMs: 10 }))
+    ).rejects.toMatchObject({ code: "STREAM_UNAVAILABLE", status: 1011 });
+    expect(down.subscribes).toBe(3);
+  });
+});
@@ -0,0 +1,452 @@
+import { randomBytes } from "node:crypto";
+import { setTimeout as sleep } from "node:timers/promises";
+import WebSocket from "ws";
+import { x402Client } from "@x402/core/client";
+import { decodePaymentRequiredHeader } from "@x402/core/http";
+import type { PaymentRequirements } from "@x402/core/types";
+import { registerExactEvmScheme } from "@x402/evm/exact/client";
+import { wrapFetchWithPayment } from "@x402/fetch";
+import { policyTypedData, type SpendingLimits } from "./policymessage.js";
+import {
+  CREDIT_AUTHORIZATION_HEADER,
+  creditTypedData,
+  encodeCreditAuthorization,
+} from "./creditmessage.js";
+// Types only: the client never loads server modules (config.ts validates the server environment)
+import type { PricingResponse } from "./routes/pricing.js";
+import type { PurchaseBody, PurchaseResponse } from "./routes/purchase.js";
+import type { Budget } from "./policies.js";
+import type { ReceiptVerification } from "./routes/receipts.js";
+import type { CreditBalance, TopupResponse } from "./routes/credits.js";
+
+export type { PricingResponse, PricingRow } from "./routes/pricing.js";
+export type { PurchaseBody, PurchaseResponse, SubscribeMessage } from "./routes/purchase.js";
+export type { Budget } from "./policies.js";
+export type { SpendingLimits } from "./policymessage.js";
+export type { ReceiptClaims } from "./receipts.js";
+export type { ReceiptVerification } from "./routes/receipts.js";
+export type { CreditBalance, TopupResponse } from "./routes/credits.js";
+
+/** Close code the relay sends when the purchased access window ends. */
+const CLOSE_EXPIRED = 4001;
+/** Close code the relay sends when an operator revokes the purchase. */
+const CLOSE_REVOKED = 4003;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/** Wallet that signs x402 payments, e.g. a viem `privateKeyToAccount` account. */
+export type PaymentSigner = Parameters<typeof registerExactEvmScheme>[1]["signer"];
+
+export interface GatewayClientOptions {
+  /** Gateway origin, e.g. "http://localhost:4021". */
+  baseUrl: string;
+  /** Signs payments and policies; required for `purchase` and `setPolicy`. */
+  signer?: PaymentSigner;
+  /** Fetch used for every request; defaults to the global fetch. */
+  fetch?: typeof fetch;
+}
+
+/** The tier to buy: any `/v1/pricing` row can be passed as is. */
+export interface Tier {
+  assetType: string;
+  channel: string;
+  duration: string;
+}
+
+export interface PurchaseOptions {
+  /** Spend the signer's store credit (sends `X-Wallet-Address`). */
+  useCredit?: boolean;
+  /**
+   * Pay from the signer's prepaid balance (see `topUp`) with a signed
+   * `CREDIT-AUTHORIZATION`, with no on-chain payment. Falls back to paying
+   * via x402 when the balance does not cover the purchase.
+   */
+  useBalance?: boolean;
+  /** Most to draw from the balance, USD; defaults to the quoted price. */
+  maxAmount?: number;
+}
+
+/** What a purchase would be charged now, read from the 402 challenge. */
+export interface Quote {
+  /** USD amount, e.g. "$1.23", after bundle pricing and store credit. */
+  price: string;
+  /** Payment options as challenged, amounts in token base units. */
+  accepts: PaymentRequirements[];
+}
+
+/** A paid purchase and its signed receipt. */
+export interface Purchase extends Omit<PurchaseResponse, "receipt"> {
+  /** Compact JWS from the response; null if the gateway sent none. */
+  receipt: string | null;
+}
+
+/** Stream credentials, i.e. the `pythPro` block of a purchase response. */
+export type StreamAccess = PurchaseResponse["pythPro"];
+
+export interface StreamOptions {
+  /** Ends the stream. */
+  signal?: AbortSignal;
+  /** Failed connections in a row before giving up (default 5). */
+  maxRetries?: number;
+  /** First reconnect delay, doubled per failure up to 30s (default 500ms). */
+  retryDelayMs?: number;
+}
+
+/** A price update for the subscribed feeds, as Pyth Pro sends it. */
+export interface StreamUpdate {
+  type: "streamUpdated";
+  subscriptionId: number;
+  parsed?: {
+    timestampUs: string;
+    priceFeeds: Array<{
+      priceFeedId: number;
+      /** Mantissa: the real price is `price * 10^exponent`. */
+      price?: string;
+      bestBidPrice?: string;
+      bestAskPrice?: string;
+      exponent?: number;
+      confidence?: string;
+    }>;
+  };
+  evm?: { encoding: string; data: string };
+  solana?: { encoding: string; data: string };
+}
+
+/** Subscription acknowledgements and errors, from the relay or upstream. */
+export interface StreamNotice {
+  type:
+    | "subscribed"
+    | "subscribedWithInvalidFeedIdsIgnored"
+    | "unsubscribed"
+    | "subscriptionError"
+    | "error";
+  subscriptionId?: number;
+  error?: string;
+  [key: string]: unknown;
+}
+
+export type StreamMessage = StreamUpdate | StreamNotice;
+
+/** An `{ error: { code, message, hint? } }` response, or a stream that cannot continue. */
+export interface GatewayError extends Error {
+  /** HTTP status, or the WebSocket close code for stream errors. */
+  status: number;
+  code: string;
+  hint?: string;
+}
+
+function gatewayError(status: number, code: string, message: string, hint?: string): GatewayError {
+  return Object.assign(new Error(message), { name: "GatewayError", status, code, hint });
+}
+
+export function isGatewayError(err: unknown): err is GatewayError {
+  return err instanceof Error && err.name === "GatewayError";
+}
+
+/** Throw the gateway's error body as a `GatewayError` unless `res` is OK. */
+async function parseResponse<T>(res: Response): Promise<T> {
+  const body = (await res.json().catch(() => undefined)) as
+    | { error?: { code: string; message: string; hint?: string } }
+    | undefined;
+  if (res.ok) return body as T;
+  if (body?.error) {
+    throw gatewayError(res.status, body.error.code, body.error.message, body.error.hint);
+  }
+  if (res.status === 402) {
+    const header = res.headers.get("payment-required");
+    const reason = header ? decodePaymentRequiredHeader(header).error : undefined;
+    throw gatewayError(402, "PAYMENT_REQUIRED", reason ?? "Payment was not accepted");
+  }
+  throw gatewayError(res.status, `HTTP_${res.status}`, res.statusText);
+}
+
+/** "1230000" base units at 6 decimals → "$1.23". */
+function formatAmount(amount: string, decimals: number): string {
+  return `$${(Number(amount) / 10 ** decimals).toFixed(2)}`;
+}
+
+type ConnectionEvent =
+  | { kind: "message"; message: StreamMessage }
+  | { kind: "closed"; code: number; reason: string }
+  | { kind: "rejected"; status: number };
+
+/**
+ * One relay connection: sends the subscribe message once open and queues
+ * messages until read. Ends with a single "closed" or "rejected" event.
+ */
+function openConnection(url: string, access: StreamAccess) {
+  const events: ConnectionEvent[] = [];
+  let wake: (() => void) | undefined;
+  let ended = false;
+  const push = (event: ConnectionEvent) => {
+    if (ended) return;
+    if (event.kind !== "message") ended = true;
+    events.push(event);
+    wake?.();
+  };
+
+  const ws = new WebSocket(url, {
+    headers: { Authorization: `Bearer ${access.accessToken}` },
+  });
+  ws.on("open", () => ws.send(JSON.stringify(access.subscribe)));
+  ws.on("message", (data) => {
+    try {
+      push({ kind: "message", message: JSON.parse(data.toString()) });
+    } catch {
+      // Pyth Pro only sends JSON in the subscribed delivery format
+    }
+  });
+  // The relay refuses the upgrade with 401 for invalid, expired or revoked tokens
+  ws.on("unexpected-response", (_req, res) => {
+    push({ kind: "rejected", status: res.statusCode ?? 0 });
+    ws.terminate();
+  });
+  // Always followed by "close"
+  ws.on("error", () => {});
+  ws.on("close", (code, reason) => push({ kind: "closed", code, reason: reason.toString() }));
+
+  return {
+    async next(): Promise<ConnectionEvent> {
+      while (events.length === 0) {
+        await new Promise<void>((resolve) => (wake = resolve));
+      }
+      return events.shift()!;
+    },
+    close() {
+      if (ws.readyState === WebSocket.OPEN) ws.close(1000, "Client closed");
+      else ws.terminate();
+    },
+  };
+}
+
+/**
+ * Stream price updates for a purchase. Dropped connections are retried
+ * with backoff, moving to the next of `websocketUrls` each time, and the
+ * subscribe message is re-sent on every connection. Ends when the
+ * purchased window runs out or `signal` aborts; throws a `GatewayError`
+ * when the purchase is revoked, the token is refused or retries run out.
+ */
+async function* streamPrices(
+  access: StreamAccess,
+  { signal, maxRetries = 5, retryDelayMs = 500 }: StreamOptions = {}
+): AsyncGenerator<StreamMessage, void, undefined> {
+  const urls = access.websocketUrls;
+  if (urls.length === 0) throw new Error("The purchase lists no websocketUrls");
+  let failures = 0;
+
+  for (let attempt = 0; !signal?.aborted; attempt++) {
+    const connection = openConnection(urls[attempt % urls.length], access);
+    const onAbort = () => connection.close();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    let end: Exclude<ConnectionEvent, { kind: "message" }>;
+    try {
+      for (;;) {
+        const event = await connection.next();
+        if (event.kind !== "message") {
+          end = event;
+          break;
+        }
+        // A connection that delivered data counts as a success
+        failures = 0;
+        yield event.message;
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      connection.close();
+    }
+
+    if (signal?.aborted) return;
+    if (end.kind === "rejected" && end.status === 401) {
+      throw gatewayError(
+        401,
+        "UNAUTHORIZED",
+        "The relay refused the access token: it is invalid, expired or revoked"
+      );
+    }
+    if (end.kind === "closed" && end.code === CLOSE_EXPIRED) return;
+    if (end.kind === "closed" && end.code === CLOSE_REVOKED) {
+      throw gatewayError(CLOSE_REVOKED, "PURCHASE_REVOKED", end.reason || "Purchase revoked");
+    }
+
+    failures++;
+    if (failures > maxRetries) {
+      const detail = end.kind === "closed" ? `closed with ${end.code}` : `refused with HTTP ${end.status}`;
+      throw gatewayError(
+        end.kind === "closed" ? end.code : end.status,
+        "STREAM_UNAVAILABLE",
+        `Gave up after ${failures} failed connections; the last ${detail}`
+      );
+    }
+    const delay = Math.min(retryDelayMs * 2 ** (failures - 1), MAX_RETRY_DELAY_MS);
+    try {
+      await sleep(delay, undefined, { signal });
+    } catch {
+      return;
+    }
+  }
+}
+
+/**
+ * Typed client for the gateway: pricing discovery, quotes, x402-paid
+ * purchases and the price stream that follows them.
+ */
+export function createGatewayClient(options: GatewayClientOptions) {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const plainFetch = options.fetch ?? fetch;
+  let payingFetch: typeof fetch | undefined;
+  if (options.signer) {
+    const client = new x402Client();
+    registerExactEvmScheme(client, { signer: options.signer });
+    payingFetch = wrapFetchWithPayment(plainFetch, client);
+  }
+
+  function purchaseRequest(tier: Tier, body: PurchaseBody, { useCredit }: PurchaseOptions) {
+    const path = [tier.assetType, tier.channel, tier.duration].map(encodeURIComponent).join("/");
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (useCredit) {
+      if (!options.signer) throw new Error("useCredit needs a signer: credit is spent by its owner");
+      headers["X-Wallet-Address"] = options.signer.address;
+    }
+    return {
+      url: `${baseUrl}/v1/purchase/${path}`,
+      init: { method: "POST", headers, body: JSON.stringify(body) },
+    };
+  }
+
+  /** `GET /v1/pricing`, optionally narrowed to tickers (comma-separated), an asset type or a channel. */
+  async function getPricing(
+    query: { ticker?: string; assetType?: string; channel?: string } = {}
+  ): Promise<PricingResponse> {
+    const params = new URLSearchParams(
+      Object.entries(query).filter((entry): entry is [string, string] => entry[1] !== undefined)
+    );
+    const search = params.size > 0 ? `?${params}` : "";
+    return parseResponse(await plainFetch(`${baseUrl}/v1/pricing${search}`));
+  }
+
+  /** Price a purchase without paying, including bundle pricing and store credit. */
+  async function quote(
+    tier: Tier,
+    body: PurchaseBody,
+    purchaseOptions: PurchaseOptions = {}
+  ): Promise<Quote> {
+    const { url, init } = purchaseRequest(tier, body, purchaseOptions);
+    const [res, pricing] = await Promise.all([
+      plainFetch(url, init),
+      getPricing({ assetType: tier.assetType, channel: tier.channel }),
+    ]);
+    const header = res.headers.get("payment-required");
+    if (res.status !== 402 || !header) {
+      await parseResponse(res);
+      throw gatewayError(res.status, "UNEXPECTED_RESPONSE", "Expected a 402 payment challenge");
+    }
+    const { accepts } = decodePaymentRequiredHeader(header);
+    // Decimals come from the advertised options; the challenge only has base units
+    for (const a of accepts) {
+      const option = pricing.paymentOptions.find(
+        (o) => o.network === a.network && o.asset.toLowerCase() === a.asset.toLowerCase()
+      );
+      if (option) return { price: formatAmount(a.amount, option.decimals), accepts };
+    }
+    throw new Error("The challenge lists no advertised payment option");
+  }
+
+  /** Sign a single-use authorization to pay for `url` from the signer's balance. */
+  async function creditAuthorization(url: string, maxAmount: number): Promise<string> {
+    const { address } = options.signer!;
+    const message = {
+      wallet: address,
+      resource: new URL(url).pathname,
+      maxAmount,
+      nonce: `0x${randomBytes(32).toString("hex")}` as const,
+      issuedAt: Date.now(),
+    };
+    const signature = await options.signer!.signTypedData(creditTypedData(message));
+    return encodeCreditAuthorization({ ...message, signature });
+  }
+
+  /** Pay for and receive access: the token, relay URLs, subscribe message and receipt. */
+  async function purchase(
+    tier: Tier,
+    body: PurchaseBody,
+    purchaseOptions: PurchaseOptions = {}
+  ): Promise<Purchase> {
+    if (!payingFetch) throw new Error("purchase needs a signer to pay with");
+    const { url, init } = purchaseRequest(tier, body, purchaseOptions);
+    if (purchaseOptions.useBalance) {
+      const maxAmount =
+        purchaseOptions.maxAmount ?? Number((await quote(tier, body)).price.replace("$", ""));
+      init.headers[CREDIT_AUTHORIZATION_HEADER] = await creditAuthorization(url, maxAmount);
+    }
+    const res = await payingFetch(url, init);
+    const response = await parseResponse<PurchaseResponse>(res);
+    return { ...response, receipt: response.receipt ?? res.headers.get("purchase-receipt") };
+  }
+
+  /** Add `amount` USD to the signer's prepaid balance, paid via x402. */
+  async function topUp(amount: number): Promise<TopupResponse> {
+    if (!payingFetch) throw new Error("topUp needs a signer to pay with");
+    return parseResponse(
+      await payingFetch(`${baseUrl}/v1/credits/topup`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ amount }),
+      })
+    );
+  }
+
+  /** Prepaid balance and store credit of `wallet` (the signer's by default). */
+  async function getBalance(wallet = options.signer?.address): Promise<CreditBalance> {
+    if (!wallet) throw new Error("getBalance needs a wallet or a signer");
+    return parseResponse(await plainFetch(`${baseUrl}/v1/credits/${wallet}`));
+  }
+
+  /** Have the gateway check a purchase receipt's signature. */
+  async function verifyReceipt(receipt: string): Promise<ReceiptVerification> {
+    return parseResponse(
+      await plainFetch(`${baseUrl}/v1/receipts/verify`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ receipt }),
+      })
+    );
+  }
+
+  /** Spending policy in force for `wallet` (the signer's by default) and what it may still spend today. */
+  async function getBudget(wallet = options.signer?.address): Promise<Budget> {
+    if (!wallet) throw new Error("getBudget needs a wallet or a signer");
+    return parseResponse(await plainFetch(`${baseUrl}/v1/wallets/${wallet}/budget`));
+  }
+
+  /**
+   * Sign and register the signer's spending policy. Tighter limits apply
+   * at once; looser ones only after the gateway's delay (see `pendingPolicy`).
+   */
+  async function setPolicy(limits: SpendingLimits): Promise<Budget> {
+    if (!options.signer) throw new Error("setPolicy needs a signer to sign the policy");
+    const { address } = options.signer;
+    const issuedAt = Date.now();
+    const signature = await options.signer.signTypedData(policyTypedData(address, limits, issuedAt));
+    return parseResponse(
+      await plainFetch(`${baseUrl}/v1/wallets/${address}/policy`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...limits, issuedAt, signature }),
+      })
+    );
+  }
+
+  return {
+    getPricing,
+    quote,
+    purchase,
+    topUp,
+    getBalance,
+    verifyReceipt,
+    getBudget,
+    setPolicy,
+    stream: streamPrices,
+  };
+}
+
+export type GatewayClient = ReturnType<typeof createGatewayClient>;
@@ -1,16 +1,51 @@
 import { z } from "zod";
 import "dotenv/config";
 
+/**
+ * One way buyers may pay. Without `asset` the network's default USDC is
+ * used; custom assets must be USD-pegged EIP-3009 tokens.
+ */
+const acceptedPaymentSchema = z.object({
+  network: z.string().regex(/^eip155:\d+$/, "Only EVM networks (eip155:<chainId>) are supported"),
+  payTo: z.string().startsWith("0x").optional(),
+  asset: z
+    .object({
+      address: z.string().startsWith("0x"),
+      decimals: z.number().int().min(2).max(36),
+      // EIP-712 domain of the token, needed to sign transferWithAuthorization
+      name: z.string(),
+      version: z.string(),
+      symbol: z.string().optional(),
+    })
+    .optional(),
+});
+
+export type AcceptedPayment = z.infer<typeof acceptedPaymentSchema>;
+
 const envSchema = z.object({
   PORT: z.coerce.number().default(4021),
 
   // x402 payment configuration
   PAYMENT_RECIPIENT_ADDRESS: z.string().startsWith("0x"),
   X402_NETWORK: z.string().default("eip155:8453"),
+  // JSON array of accepted payment options; overrides X402_NETWORK when set
+  X402_ACCEPTS: z
+    .string()
+    .optional()
+    .transform((s, ctx) => {
+      if (!s) return undefined;
+      try {
+        return JSON.parse(s) as unknown;
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "X402_ACCEPTS must be JSON" });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.array(acceptedPaymentSchema).min(1).optional()),
   CDP_API_KEY_ID: z.string().optional().transform((v) => v?.startsWith("your-") ? undefined : v),
   CDP_API_KEY_SECRET: z.string().optional().transform((v) => v?.startsWith("your-") ? undefined : v),
 
-  // Pyth Pro — returned to buyer after purchase
+  // Pyth Pro — upstream credentials, never returned to buyers
   PYTH_PRO_ACCESS_TOKEN: z.string(),
   PYTH_PRO_WS_URLS: z
     .string()
@@ -19,6 +54,56 @@ const envSchema = z.object({
     )
     .transform((s) => s.split(",")),
 
+  // Single-price and history upstreams for GET /v1/price and /v1/history.
+  // PRICE_SOURCE=fixture serves src/fixtures/prices.json instead, for offline runs.
+  PRICE_SOURCE: z.enum(["pyth", "fixture"]).default("pyth"),
+  PYTH_PRO_PRICE_URL: z.string().url().default("https://pyth-lazer.dourolabs.app/v1/latest_price"),
+  PYTH_PRO_HISTORY_URL: z
+    .string()
+    .url()
+    .default("https://history.pyth-lazer.dourolabs.app/history/v1/real_time/history"),
+
+  // Public URL of the gateway's WebSocket relay, returned to buyers.
+  // Derived from the purchase request's Host header when unset.
+  PUBLIC_WS_URL: z.string().url().optional(),
+
+  // Signing key for per-purchase access tokens
+  ACCESS_TOKEN_SECRET: z.string().min(32).optional(),
+
+  // Ed25519 private key (PKCS#8 PEM) for signing purchase receipts
+  RECEIPT_SIGNING_KEY: z.string().optional(),
+
+  // Bearer token for the /admin API; the API is disabled when unset
+  ADMIN_API_KEY: z.string().min(32).optional(),
+
+  // Bearer token for GET /metrics; the endpoint is public when unset
+  METRICS_TOKEN: z.string().min(16).optional(),
+
+  // Rate limits: requests per window per client IP (or verified payer
+  // wallet for paid calls). 0 disables a budget.
+  RATE_LIMIT_WINDOW_SECONDS: z.coerce.number().int().positive().default(60),
+  RATE_LIMIT_DISCOVERY_PER_IP: z.coerce.number().int().nonnegative().default(120),
+  RATE_LIMIT_PURCHASE_PER_IP: z.coerce.number().int().nonnegative().default(30),
+  RATE_LIMIT_PURCHASE_PER_WALLET: z.coerce.number().int().nonnegative().default(30),
+  // Reverse proxies in front of the gateway, so req.ip is the client's address
+  TRUST_PROXY: z.coerce.number().int().nonnegative().default(0),
+
+  // Hours before a wallet's loosened spending policy applies; tightening is immediate
+  POLICY_LOOSEN_DELAY_HOURS: z.coerce.number().nonnegative().default(24),
+
+  // Purchase ledger
+  LEDGER_DRIVER: z.enum(["file", "memory"]).default("file"),
+  LEDGER_FILE: z.string().optional(),
+
+  // Include an upstream Pyth Pro connection test in GET /health/ready
+  HEALTH_CHECK_UPSTREAM: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((v) => v === "true"),
+
+  // Symbol registry refresh interval (0 disables)
+  SYMBOLS_REFRESH_SECONDS: z.coerce.number().nonnegative().default(300),
+
   // Environment
   NODE_ENV: z
     .enum(["development", "production", "test"])
@@ -28,6 +113,11 @@ const envSchema = z.object({
 export const config = envSchema.parse(process.env);
 export type Config = z.infer<typeof envSchema>;
 
+/** Payment options every paid route advertises, each with its own recipient. */
+export const acceptedPayments: Array<AcceptedPayment & { payTo: string }> = (
+  config.X402_ACCEPTS ?? [{ network: config.X402_NETWORK }]
+).map((option) => ({ ...option, payTo: option.payTo ?? config.PAYMENT_RECIPIENT_ADDRESS }));
+
 // The @coinbase/x402 library reads CDP keys directly from process.env at
 // request time. Remove placeholder values so it falls back to unauthenticated
 // requests (which work fine with the public Coinbase facilitator).
@@ -0,0 +1,72 @@
+/**
+ * EIP-712 message a wallet signs to pay for a purchase from its prepaid
+ * balance instead of on-chain. Kept free of server imports so the client
+ * SDK can build the same message.
+ */
+import { POLICY_DOMAIN } from "./policymessage.js";
+
+/** Request header carrying an encoded `CreditAuthorization`. */
+export const CREDIT_AUTHORIZATION_HEADER = "CREDIT-AUTHORIZATION";
+
+/** A signed, single-use authorization to draw down a wallet's balance. */
+export interface CreditAuthorization {
+  wallet: `0x${string}`;
+  /** Path of the purchase route it pays for, e.g. "/v1/purchase/crypto/200ms/1h". */
+  resource: string;
+  /** Most the wallet agrees to be charged, USD. */
+  maxAmount: number;
+  /** 32 random bytes, hex; each nonce is accepted once. */
+  nonce: `0x${string}`;
+  /** Unix milliseconds. */
+  issuedAt: number;
+  signature: `0x${string}`;
+}
+
+export const CREDIT_TYPES = {
+  CreditDrawdown: [
+    { name: "wallet", type: "address" },
+    { name: "resource", type: "string" },
+    { name: "maxAmount", type: "string" },
+    { name: "nonce", type: "bytes32" },
+    { name: "issuedAt", type: "uint256" },
+  ],
+} as const;
+
+/** Typed data for `authorization`, signed under the same domain as spending policies. */
+export function creditTypedData(authorization: Omit<CreditAuthorization, "signature">) {
+  return {
+    domain: POLICY_DOMAIN,
+    types: CREDIT_TYPES,
+    primaryType: "CreditDrawdown" as const,
+    message: {
+      wallet: authorization.wallet,
+      resource: authorization.resource,
+      maxAmount: authorization.maxAmount.toFixed(2),
+      nonce: authorization.nonce,
+      issuedAt: BigInt(authorization.issuedAt),
+    },
+  };
+}
+
+export function encodeCreditAuthorization(authorization: CreditAuthorization): string {
+  return Buffer.from(JSON.stringify(authorization)).toString("base64url");
+}
+
+/** Throws when `header` is not an encoded authorization. */
+export function decodeCreditAuthorization(header: string): CreditAuthorization {
+  const value = JSON.parse(Buffer.from(header, "base64url").toString("utf-8"));
+  const hex = (v: unknown, bytes?: number) =>
+    typeof v === "string" && /^0x[0-9a-fA-F]+$/.test(v) && (!bytes || v.length === 2 + bytes * 2);
+  if (
+    !hex(value?.wallet, 20) ||
+    typeof value.resource !== "string" ||
+    typeof value.maxAmount !== "number" ||
+    !(value.maxAmount > 0) ||
+    !hex(value.nonce, 32) ||
+    !Number.isInteger(value.issuedAt) ||
+    !hex(value.signature)
+  ) {
+    throw new Error("Malformed credit authorization");
+  }
+  return value;
+}
@@ -0,0 +1,202 @@
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+import { createJsonlStore } from "./jsonl.js";
+
+const logger = createLogger("credits");
+
+/**
+ * One movement of a wallet's store credit. Positive amounts are issued
+ * (e.g. a paid purchase that could not be delivered, or a prepaid top-up),
+ * negative amounts are redeemed against a later purchase or drawn down to
+ * pay for one outright.
+ */
+export interface CreditEntry {
+  id: string;
+  wallet: string;
+  /** USD; positive = issued, negative = redeemed. */
+  amount: number;
+  reason: string;
+  purchaseId: string | null;
+  txHash: string | null;
+  /** Nonce of the credit authorization that paid a drawdown. */
+  nonce?: string;
+  createdAt: string;
+}
+
+/** Storage backend for store credit. */
+export interface CreditStore {
+  add(entry: CreditEntry): Promise<void>;
+  /** Current balance in USD. */
+  balance(wallet: string): Promise<number>;
+  list(wallet?: string): Promise<CreditEntry[]>;
+  /** Whether a drawdown was already paid with this authorization nonce. */
+  nonceUsed(nonce: string): Promise<boolean>;
+}
+
+const round = (dollars: number) => Math.round(dollars * 100) / 100;
+
+/** Credit history kept in memory only; lost on restart. */
+export function createMemoryCreditStore(): CreditStore {
+  const entries: CreditEntry[] = [];
+  const nonces = new Set<string>();
+  const forWallet = (wallet: string) =>
+    entries.filter((e) => e.wallet.toLowerCase() === wallet.toLowerCase());
+
+  return {
+    async add(entry) {
+      entries.push({ ...entry });
+      if (entry.nonce) nonces.add(entry.nonce.toLowerCase());
+    },
+    async balance(wallet) {
+      return round(forWallet(wallet).reduce((sum, e) => sum + e.amount, 0));
+    },
+    async list(wallet) {
+      return (wallet ? forWallet(wallet) : entries).map((e) => ({ ...e }));
+    },
+    async nonceUsed(nonce) {
+      return nonces.has(nonce.toLowerCase());
+    },
+  };
+}
+
+/** Credit history persisted to a JSON Lines file, one entry per line. */
+export async function createFileCreditStore(filePath: string): Promise<CreditStore> {
+  const memory = createMemoryCreditStore();
+  const file = await createJsonlStore<CreditEntry>(filePath, memory.add);
+  if (file.replayed > 0) logger.info({ filePath, entries: file.replayed }, "Credits loaded");
+
+  return {
+    async add(entry) {
+      await memory.add(entry);
+      await file.append(entry);
+    },
+    balance: memory.balance,
+    list: memory.list,
+    nonceUsed: memory.nonceUsed,
+  };
+}
+
+const DEFAULT_CREDITS_FILE = path.resolve(import.meta.dirname, "..", "data", "credits.jsonl");
+
+let store: CreditStore = createMemoryCreditStore();
+
+/** Open the credit store next to the purchase ledger. Call once at startup. */
+export async function initCredits(): Promise<void> {
+  if (config.LEDGER_DRIVER === "memory") {
+    store = createMemoryCreditStore();
+    return;
+  }
+  store = await createFileCreditStore(
+    config.LEDGER_FILE
+      ? path.join(path.dirname(config.LEDGER_FILE), "credits.jsonl")
+      : DEFAULT_CREDITS_FILE
+  );
+}
+
+/** Swap the credit backend (e.g. an in-memory store in tests). */
+export function setCredits(next: CreditStore): void {
+  store = next;
+}
+
+export function getCredits(): CreditStore {
+  return store;
+}
+
+/** Record credit for a payment that was settled but not delivered. */
+export async function issueCredit(
+  wallet: string,
+  dollars: number,
+  reason: string,
+  ref: { purchaseId?: string; txHash?: string | null } = {}
+): Promise<void> {
+  await store.add({
+    id: randomUUID(),
+    wallet,
+    amount: round(dollars),
+    reason,
+    purchaseId: ref.purchaseId ?? null,
+    txHash: ref.txHash ?? null,
+    createdAt: new Date().toISOString(),
+  });
+  logger.info({ wallet, amount: round(dollars), reason, ...ref }, "Store credit issued");
+}
+
+// Balance reads and the debits that depend on them run one at a time, so
+// parallel requests cannot spend the same credit twice
+let debits: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(fn: () => Promise<T>): Promise<T> {
+  const run = debits.then(fn);
+  debits = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Apply the credit `wallet` holds to a purchase priced at `dollars` and
+ * debit it at once, so concurrent purchases cannot apply the same credit.
+ * Returns the split; give the credit back with `issueCredit` if the payment
+ * never settles.
+ */
+export function redeemCredit(
+  wallet: string,
+  dollars: number,
+  purchaseId: string
+): Promise<{ charged: number; creditUsed: number }> {
+  return serialized(async () => {
+    const split = applyCredit(dollars, await store.balance(wallet));
+    if (split.creditUsed > 0) {
+      await store.add({
+        id: randomUUID(),
+        wallet,
+        amount: -split.creditUsed,
+        reason: "redeemed",
+        purchaseId,
+        txHash: null,
+        createdAt: new Date().toISOString(),
+      });
+    }
+    return split;
+  });
+}
+
+/**
+ * Pay `dollars` for purchase `ref.purchaseId` from the balance of `wallet`,
+ * with the credit authorization nonce `ref.nonce`. The nonce is recorded
+ * with the drawdown, so it is accepted once even across restarts. Nothing
+ * is debited when the nonce was used before or the balance falls short.
+ */
+export function drawCredit(
+  wallet: string,
+  dollars: number,
+  ref: { nonce: string; purchaseId: string }
+): Promise<"drawn" | "replayed" | "insufficient"> {
+  return serialized(async () => {
+    if (await store.nonceUsed(ref.nonce)) return "replayed";
+    if ((await store.balance(wallet)) < round(dollars)) return "insufficient";
+    await store.add({
+      id: randomUUID(),
+      wallet,
+      amount: -round(dollars),
+      reason: "drawdown",
+      purchaseId: ref.purchaseId,
+      txHash: null,
+      nonce: ref.nonce.toLowerCase(),
+      createdAt: new Date().toISOString(),
+    });
+    return "drawn";
+  });
+}
+
+/** x402 cannot settle a zero amount, so credit never covers the last cent. */
+const MIN_CHARGE = 0.01;
+
+/** Split a price into what is charged on-chain and what is covered by credit. */
+export function applyCredit(
+  dollars: number,
+  balance: number
+): { charged: number; creditUsed: number } {
+  const creditUsed = round(Math.min(Math.max(balance, 0), Math.max(dollars - MIN_CHARGE, 0)));
+  return { charged: round(dollars - creditUsed), creditUsed };
+}
@@ -0,0 +1,174 @@
+import { createHash } from "node:crypto";
+import { HTTPFacilitatorClient, type FacilitatorClient } from "@x402/core/server";
+import type {
+  Network,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  SupportedResponse,
+  VerifyResponse,
+} from "@x402/core/types";
+import { authorizationTypes, type ExactEIP3009Payload } from "@x402/evm";
+import { createFacilitatorConfig } from "@coinbase/x402";
+import { getAddress, isAddressEqual, verifyTypedData } from "viem";
+import { acceptedPayments, config } from "./config.js";
+import { createLogger } from "./logger.js";
+
+const logger = createLogger("facilitator");
+
+/**
+ * Facilitator used when none is injected: the public x402.org facilitator for
+ * testnet (no CDP keys needed), or the authenticated CDP facilitator for
+ * mainnet when keys are provided.
+ */
+export function createDefaultFacilitator(): FacilitatorClient {
+  const hasCdpKeys = !!(config.CDP_API_KEY_ID && config.CDP_API_KEY_SECRET);
+  return hasCdpKeys
+    ? new HTTPFacilitatorClient(
+        createFacilitatorConfig(config.CDP_API_KEY_ID, config.CDP_API_KEY_SECRET)
+      )
+    : new HTTPFacilitatorClient({ url: "https://x402.org/facilitator" });
+}
+
+/** A payment settled by the local facilitator. */
+export interface LocalSettlement {
+  payer: string;
+  payTo: string;
+  asset: string;
+  network: string;
+  amount: string;
+  nonce: string;
+  transaction: string;
+}
+
+export interface LocalFacilitator extends FacilitatorClient {
+  /** Every settled payment, oldest first. */
+  settlements: LocalSettlement[];
+}
+
+/**
+ * In-memory facilitator for the `exact` scheme with EIP-3009 payloads. It
+ * checks the signature, recipient, amount, validity window and nonce reuse
+ * exactly as an on-chain `transferWithAuthorization` would, but "settles" by
+ * recording the transfer instead of submitting it. No network access.
+ */
+export function createLocalFacilitator(
+  options: { networks?: Network[] } = {}
+): LocalFacilitator {
+  const networks =
+    options.networks ?? [...new Set(acceptedPayments.map((a) => a.network as Network))];
+  const usedNonces = new Set<string>();
+  const settlements: LocalSettlement[] = [];
+
+  async function check(
+    paymentPayload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<VerifyResponse> {
+    const { authorization, signature } = paymentPayload.payload as ExactEIP3009Payload;
+    const payer = authorization?.from;
+    const invalid = (invalidReason: string): VerifyResponse => ({
+      isValid: false,
+      invalidReason,
+      payer,
+    });
+
+    if (requirements.scheme !== "exact" || !networks.includes(requirements.network)) {
+      return invalid("unsupported_scheme");
+    }
+    if (paymentPayload.accepted.network !== requirements.network) {
+      return invalid("network_mismatch");
+    }
+    if (!authorization || !signature) return invalid("invalid_exact_evm_payload");
+    const { name, version } = requirements.extra as { name?: string; version?: string };
+    if (!name || !version) return invalid("missing_eip712_domain");
+
+    const validSignature = await verifyTypedData({
+      address: authorization.from,
+      domain: {
+        name,
+        version,
+        chainId: Number(requirements.network.split(":")[1]),
+        verifyingContract: getAddress(requirements.asset),
+      },
+      types: authorizationTypes,
+      primaryType: "TransferWithAuthorization",
+      message: {
+        from: authorization.from,
+        to: authorization.to,
+        value: BigInt(authorization.value),
+        validAfter: BigInt(authorization.validAfter),
+        validBefore: BigInt(authorization.validBefore),
+        nonce: authorization.nonce,
+      },
+      signature,
+    }).catch(() => false);
+    if (!validSignature) return invalid("invalid_exact_evm_payload_signature");
+
+    if (!isAddressEqual(authorization.to, requirements.payTo as `0x${string}`)) {
+      return invalid("invalid_exact_evm_payload_recipient_mismatch");
+    }
+    if (BigInt(authorization.value) !== BigInt(requirements.amount)) {
+      return invalid("invalid_exact_evm_payload_authorization_value");
+    }
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    if (BigInt(authorization.validAfter) > now) {
+      return invalid("invalid_exact_evm_payload_authorization_valid_after");
+    }
+    if (BigInt(authorization.validBefore) <= now) {
+      return invalid("invalid_exact_evm_payload_authorization_valid_before");
+    }
+    if (usedNonces.has(`${authorization.from.toLowerCase()}:${authorization.nonce}`)) {
+      return invalid("invalid_exact_evm_payload_authorization_nonce_used");
+    }
+    return { isValid: true, payer };
+  }
+
+  return {
+    settlements,
+
+    verify: check,
+
+    async settle(paymentPayload, requirements): Promise<SettleResponse> {
+      const result = await check(paymentPayload, requirements);
+      if (!result.isValid) {
+        return {
+          success: false,
+          errorReason: result.invalidReason,
+          payer: result.payer,
+          transaction: "",
+          network: requirements.network,
+        };
+      }
+
+      const { authorization } = paymentPayload.payload as ExactEIP3009Payload;
+      usedNonces.add(`${authorization.from.toLowerCase()}:${authorization.nonce}`);
+      const transaction =
+        "0x" +
+        createHash("sha256")
+          .update(`${requirements.network}:${authorization.from}:${authorization.nonce}`)
+          .digest("hex");
+      settlements.push({
+        payer: authorization.from,
+        payTo: requirements.payTo,
+        asset: requirements.asset,
+        network: requirements.network,
+        amount: authorization.value,
+        nonce: authorization.nonce,
+        transaction,
+      });
+      logger.info(
+        { payer: authorization.from, amount: authorization.value, transaction },
+        "Local settlement recorded"
+      );
+      return { success: true, payer: authorization.from, transaction, network: requirements.network };
+    },
+
+    async getSupported(): Promise<SupportedResponse> {
+      return {
+        kinds: networks.map((network) => ({ x402Version: 2, scheme: "exact", network })),
+        extensions: [],
+        signers: {},
+      };
+    },
+  };
+}
@@ -0,0 +1,175 @@
+import { performance } from "node:perf_hooks";
+import { WebSocket } from "ws";
+import type { FacilitatorClient } from "@x402/core/server";
+import { acceptedPayments, config } from "./config.js";
+import { getSymbolsStatus } from "./symbols.js";
+import { getPricingStatus } from "./pricing.js";
+import { getLedger } from "./ledger.js";
+
+/**
+ * `fail` takes the instance out of rotation; `degraded` is reported but the
+ * instance keeps serving (e.g. a stale but usable symbol registry).
+ */
+export type CheckStatus = "ok" | "degraded" | "fail";
+
+interface CheckOutcome {
+  status: CheckStatus;
+  message?: string;
+  [detail: string]: unknown;
+}
+
+export type CheckResult = CheckOutcome & { latencyMs: number };
+
+/** `signal` aborts when the check times out, so it can release what it holds. */
+type Check = (signal: AbortSignal) => Promise<CheckOutcome>;
+
+/** Per-check time limit, below the orchestrator's probe timeout. */
+const CHECK_TIMEOUT_MS = 3_000;
+/** Remote checks are cached so frequent probes don't hammer dependencies. */
+const REMOTE_CACHE_MS = 10_000;
+
+async function run(check: Check): Promise<CheckResult> {
+  const start = performance.now();
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const result = await Promise.race([
+      check(controller.signal),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(new Error("Timed out"));
+        }, CHECK_TIMEOUT_MS);
+      }),
+    ]);
+    return { ...result, latencyMs: Math.round(performance.now() - start) };
+  } catch (err) {
+    return {
+      status: "fail",
+      message: (err as Error).message,
+      latencyMs: Math.round(performance.now() - start),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Reuse a result for `ttlMs`; concurrent callers share one in-flight run. */
+function cached(ttlMs: number, check: () => Promise<CheckResult>) {
+  let last: { at: number; result: Promise<CheckResult> } | undefined;
+  return () => {
+    if (!last || Date.now() - last.at > ttlMs) last = { at: Date.now(), result: check() };
+    return last.result;
+  };
+}
+
+function facilitatorCheck(facilitator: FacilitatorClient): Check {
+  return async () => {
+    const { kinds } = await facilitator.getSupported();
+    const supported = new Set(kinds.map((k) => `${k.scheme}:${k.network}`));
+    const missing = [...new Set(acceptedPayments.map((a) => a.network))].filter(
+      (network) => !supported.has(`exact:${network}`)
+    );
+    return missing.length > 0
+      ? { status: "fail", message: `Networks not supported by facilitator: ${missing.join(", ")}` }
+      : { status: "ok" };
+  };
+}
+
+const symbolsCheck: Check = async () => {
+  const { feeds, loadedAt, origin } = getSymbolsStatus();
+  if (!loadedAt || feeds === 0) {
+    return { status: "fail", message: "Symbol registry is empty", feeds };
+  }
+
+  const ageSeconds = Math.round((Date.now() - loadedAt.getTime()) / 1000);
+  // Stale once three refreshes in a row have been missed
+  const stale =
+    config.SYMBOLS_REFRESH_SECONDS > 0 && ageSeconds > 3 * config.SYMBOLS_REFRESH_SECONDS;
+  return {
+    status: stale || origin === "snapshot" ? "degraded" : "ok",
+    ...(origin === "snapshot" && { message: "Serving symbols from the on-disk snapshot" }),
+    ...(stale && { message: "Symbol refresh is failing" }),
+    feeds,
+    ageSeconds,
+    origin,
+  };
+};
+
+const pricingCheck: Check = async () => {
+  const { ok, at, error } = getPricingStatus();
+  // The previous valid config stays live after a failed reload
+  return ok
+    ? { status: "ok", loadedAt: at.toISOString() }
+    : {
+        status: "degraded",
+        message: `Last pricing.json reload failed: ${error}`,
+        failedAt: at.toISOString(),
+      };
+};
+
+const storageCheck: Check = async () => {
+  await getLedger().ping!();
+  return { status: "ok", driver: config.LEDGER_DRIVER };
+};
+
+/** Connect to the first Pyth Pro router that accepts a handshake, then drop the connection. */
+const upstreamCheck: Check = async (signal) => {
+  const urls = config.PYTH_PRO_WS_URLS;
+  const failures: string[] = [];
+  for (const url of urls) {
+    if (signal.aborted) break;
+    const ws = new WebSocket(url, {
+      headers: { Authorization: `Bearer ${config.PYTH_PRO_ACCESS_TOKEN}` },
+      // Leave time to fail over to the remaining routers
+      handshakeTimeout: CHECK_TIMEOUT_MS / urls.length,
+    });
+    try {
+      await new Promise<void>((resolve, reject) => {
+        ws.once("open", () => resolve());
+        // Not once: terminating a socket mid-handshake emits another error
+        ws.on("error", reject);
+        signal.addEventListener("abort", () => reject(new Error("Timed out")), { once: true });
+      });
+      return failures.length > 0 ? { status: "degraded", url, failures } : { status: "ok", url };
+    } catch (err) {
+      failures.push(`${url}: ${(err as Error).message}`);
+    } finally {
+      // Only the handshake matters; don't wait on a slow router to close
+      ws.terminate();
+    }
+  }
+  return { status: "fail", message: "No Pyth Pro router reachable", failures };
+};
+
+/**
+ * Readiness checks for the dependencies a paid request needs. Storage is
+ * checked for persistent ledgers only, the upstream when
+ * HEALTH_CHECK_UPSTREAM is set.
+ */
+export function createReadinessChecks(facilitator: FacilitatorClient) {
+  const facilitatorResult = cached(REMOTE_CACHE_MS, () => run(facilitatorCheck(facilitator)));
+  const upstreamResult = cached(REMOTE_CACHE_MS, () => run(upstreamCheck));
+
+  return async (): Promise<{ status: CheckStatus; checks: Record<string, CheckResult> }> => {
+    const checks: Record<string, () => Promise<CheckResult>> = {
+      facilitator: facilitatorResult,
+      symbols: () => run(symbolsCheck),
+      pricing: () => run(pricingCheck),
+      // The ledger can be swapped after startup, so look it up per probe
+      ...(getLedger().ping && { storage: () => run(storageCheck) }),
+      ...(config.HEALTH_CHECK_UPSTREAM && { upstream: upstreamResult }),
+    };
+    const names = Object.keys(checks);
+    const results = await Promise.all(names.map((name) => checks[name]()));
+    const statuses = results.map((r) => r.status);
+    return {
+      status: statuses.includes("fail")
+        ? "fail"
+        : statuses.includes("degraded")
+          ? "degraded"
+          : "ok",
+      checks: Object.fromEntries(names.map((name, i) => [name, results[i]])),
+    };
+  };
+}
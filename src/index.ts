@@ -2,15 +2,29 @@ import * as http from "node:http";
 import { createApp } from "./server.js";
 import { config } from "./config.js";
 import { createLogger } from "./logger.js";
-import { initSymbols } from "./symbols.js";
+import { initSymbols, startSymbolRefresh } from "./symbols.js";
+import { attachRelay } from "./relay.js";
+import { initLedger } from "./ledger.js";
+import { initCredits } from "./credits.js";
+import { initBlocklist } from "./blocklist.js";
+import { initPolicies } from "./policies.js";
+import { startSurgeSignals } from "./pricing.js";
 
 const logger = createLogger("main");
 
 async function main() {
+  await initLedger();
+  await initCredits();
+  await initBlocklist();
+  await initPolicies();
+  startSurgeSignals();
   await initSymbols();
+  startSymbolRefresh();
 
   const app = createApp();
   const server = http.createServer(app);
+  const relay = attachRelay(server);
+  server.once("close", app.close);
 
   server.listen(config.PORT, () => {
     logger.info({ port: config.PORT }, "Gateway started");
@@ -19,6 +33,7 @@ async function main() {
   // Graceful shutdown
   function shutdown() {
     logger.info("Shutting down...");
+    relay.close();
     server.close(() => {
       logger.info("Server closed");
       process.exit(0);
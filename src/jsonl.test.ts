@@ -0,0 +1,55 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createJsonlStore } from "./jsonl.js";
+
+let dir: string;
+let file: string;
+
+beforeEach(async () => {
+  dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "jsonl-"));
+  file = path.join(dir, "nested", "store.jsonl");
+});
+
+afterEach(async () => {
+  await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+describe("createJsonlStore", () => {
+  it("replays appended lines in order when reopened", async () => {
+    const store = await createJsonlStore<{ n: number }>(file, () => {});
+    expect(store.replayed).toBe(0);
+    await store.ping();
+    await Promise.all([1, 2, 3].map((n) => store.append({ n })));
+
+    const seen: number[] = [];
+    const reopened = await createJsonlStore<{ n: number }>(file, (line) => {
+      seen.push(line.n);
+    });
+    expect(seen).toEqual([1, 2, 3]);
+    expect(reopened.replayed).toBe(3);
+  });
+
+  it("skips corrupt lines and lines the replay rejects", async () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, '{"n":1}\n{"n":\n\n{"n":-1}\n{"n":2}\n');
+
+    const seen: number[] = [];
+    const store = await createJsonlStore<{ n: number }>(file, (line) => {
+      if (line.n < 0) throw new Error("invalid");
+      seen.push(line.n);
+    });
+    expect(seen).toEqual([1, 2]);
+    expect(store.replayed).toBe(2);
+  });
+
+  it("keeps appending after a failed write", async () => {
+    const store = await createJsonlStore<{ n: number }>(file, () => {});
+    fs.mkdirSync(file);
+    await expect(store.append({ n: 1 })).rejects.toThrow();
+    fs.rmdirSync(file);
+    await store.append({ n: 2 });
+    expect(fs.readFileSync(file, "utf-8")).toBe('{"n":2}\n');
+  });
+});
@@ -0,0 +1,61 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createLogger } from "./logger.js";
+
+const logger = createLogger("jsonl");
+
+/** An append-only JSON Lines file backing one of the file stores. */
+export interface JsonlStore<T> {
+  /** Number of lines replayed when the file was opened. */
+  replayed: number;
+  /** Append one line. Appends are queued, so lines never interleave. */
+  append(line: T): Promise<void>;
+  /** Throws when the file, or its directory before the first write, is not writable. */
+  ping(): Promise<void>;
+}
+
+/**
+ * Open `filePath` for appending, creating its directory. Lines already in
+ * the file are passed to `replay` in order, so the store can rebuild its
+ * in-memory state; corrupt lines are logged and skipped.
+ */
+export async function createJsonlStore<T>(
+  filePath: string,
+  replay: (line: T) => void | Promise<void>
+): Promise<JsonlStore<T>> {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  let replayed = 0;
+  if (fs.existsSync(filePath)) {
+    const lines = fs.readFileSync(filePath, "utf-8").split("\n");
+    for (const [i, line] of lines.entries()) {
+      if (!line.trim()) continue;
+      try {
+        await replay(JSON.parse(line) as T);
+        replayed++;
+      } catch {
+        logger.warn({ filePath, line: i + 1 }, "Skipping corrupt line");
+      }
+    }
+  }
+
+  let writes: Promise<void> = Promise.resolve();
+
+  return {
+    replayed,
+    append(line) {
+      // Chained on a settled copy, so one failed write does not fail every later one
+      const write = writes.then(() =>
+        fs.promises.appendFile(filePath, JSON.stringify(line) + "\n")
+      );
+      writes = write.catch(() => undefined);
+      return write;
+    },
+    async ping() {
+      await fs.promises.access(
+        fs.existsSync(filePath) ? filePath : path.dirname(filePath),
+        fs.constants.W_OK
+      );
+    },
+  };
+}
@@ -0,0 +1,196 @@
+import path from "node:path";
+import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+import { createJsonlStore } from "./jsonl.js";
+
+const logger = createLogger("ledger");
+
+/** On-chain details of the x402 payment behind a purchase or renewal. */
+export interface PaymentDetails {
+  network: string;
+  asset: string;
+  /** Amount in the asset's smallest unit. */
+  amount: string;
+  nonce: string | null;
+}
+
+/** A paid extension and/or channel upgrade of an existing purchase. */
+export interface RenewalRecord {
+  wallet: string;
+  /** Duration added to the expiry. */
+  duration: string;
+  /** Channel after the renewal. */
+  channel: string;
+  pricePaid: number;
+  txHash: string | null;
+  payment?: PaymentDetails;
+  renewedAt: string;
+}
+
+/** An on-chain refund requested by an operator. */
+export interface RefundRecord {
+  status: "pending" | "refunded";
+  /** USD to return to the payer. */
+  amount: number;
+  reason: string;
+  requestedAt: string;
+  /** Refund transfer, once sent. */
+  txHash: string | null;
+  refundedAt: string | null;
+}
+
+/** Set when an operator withdraws an entitlement before it expires. */
+export interface RevocationRecord {
+  reason: string;
+  revokedAt: string;
+}
+
+/** One paid entitlement. `id` is the access token ID issued for it. */
+export interface PurchaseRecord {
+  id: string;
+  wallet: string;
+  tickers: string[];
+  feedIds: number[];
+  assetType: string;
+  channel: string;
+  duration: string;
+  /** Price paid on-chain in USD. */
+  pricePaid: number;
+  /** Store credit applied on top of `pricePaid`, USD. */
+  creditApplied?: number;
+  /** x402 settlement transaction hash. */
+  txHash: string | null;
+  payment?: PaymentDetails;
+  /** ISO timestamps of the access window. */
+  startsAt: string;
+  expiresAt: string;
+  renewals?: RenewalRecord[];
+  /** The latest refund; earlier ones that were sent move to `refunds`. */
+  refund?: RefundRecord;
+  refunds?: RefundRecord[];
+  revoked?: RevocationRecord;
+}
+
+export interface PurchaseFilter {
+  wallet?: string;
+  ticker?: string;
+  feedId?: number;
+  /** Only unrevoked entitlements whose window contains this instant. */
+  activeAt?: Date;
+}
+
+/** Storage backend for the purchase ledger. */
+export interface PurchaseStore {
+  insert(record: PurchaseRecord): Promise<void>;
+  update(
+    id: string,
+    patch: Partial<Omit<PurchaseRecord, "id">>
+  ): Promise<PurchaseRecord | undefined>;
+  get(id: string): Promise<PurchaseRecord | undefined>;
+  list(filter?: PurchaseFilter): Promise<PurchaseRecord[]>;
+  /** Throws when the backing storage is unusable. Omitted by in-memory stores. */
+  ping?(): Promise<void>;
+}
+
+function matches(record: PurchaseRecord, filter: PurchaseFilter): boolean {
+  if (filter.wallet && record.wallet.toLowerCase() !== filter.wallet.toLowerCase()) {
+    return false;
+  }
+  if (filter.ticker && !record.tickers.includes(filter.ticker)) return false;
+  if (filter.feedId !== undefined && !record.feedIds.includes(filter.feedId)) return false;
+  if (filter.activeAt) {
+    if (record.revoked) return false;
+    const t = filter.activeAt.getTime();
+    if (Date.parse(record.startsAt) > t || Date.parse(record.expiresAt) <= t) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** Ledger kept in memory only, for tests and `LEDGER_DRIVER=memory`. */
+export function createMemoryStore(): PurchaseStore {
+  const records = new Map<string, PurchaseRecord>();
+
+  return {
+    async insert(record) {
+      if (records.has(record.id)) {
+        throw new Error(`Purchase ${record.id} already exists`);
+      }
+      records.set(record.id, { ...record });
+    },
+    async update(id, patch) {
+      const existing = records.get(id);
+      if (!existing) return undefined;
+      const updated = { ...existing, ...patch, id };
+      records.set(id, updated);
+      return { ...updated };
+    },
+    async get(id) {
+      const record = records.get(id);
+      return record && { ...record };
+    },
+    async list(filter = {}) {
+      return [...records.values()]
+        .filter((r) => matches(r, filter))
+        .map((r) => ({ ...r }));
+    },
+  };
+}
+
+/**
+ * Append-only JSON Lines store. Every insert/update appends the full record;
+ * on load the last line per ID wins. Reads are served from memory.
+ */
+export async function createFileStore(filePath: string): Promise<PurchaseStore> {
+  const memory = createMemoryStore();
+  const latest = new Map<string, PurchaseRecord>();
+  const file = await createJsonlStore<PurchaseRecord>(filePath, (record) => {
+    latest.set(record.id, record);
+  });
+  for (const record of latest.values()) await memory.insert(record);
+  if (file.replayed > 0) logger.info({ filePath, purchases: latest.size }, "Ledger loaded");
+
+  return {
+    async insert(record) {
+      await memory.insert(record);
+      await file.append(record);
+    },
+    async update(id, patch) {
+      const updated = await memory.update(id, patch);
+      if (updated) await file.append(updated);
+      return updated;
+    },
+    get: memory.get,
+    list: memory.list,
+    ping: file.ping,
+  };
+}
+
+const DEFAULT_LEDGER_FILE = path.resolve(
+  import.meta.dirname,
+  "..",
+  "data",
+  "purchases.jsonl"
+);
+
+let store: PurchaseStore = createMemoryStore();
+
+/** Open the configured ledger backend. Call once at startup. */
+export async function initLedger(): Promise<void> {
+  if (config.LEDGER_DRIVER === "memory") {
+    store = createMemoryStore();
+    logger.warn("Using in-memory ledger — purchases are lost on restart");
+    return;
+  }
+  store = await createFileStore(config.LEDGER_FILE ?? DEFAULT_LEDGER_FILE);
+}
+
+/** Swap the ledger backend (e.g. an in-memory store in tests). */
+export function setLedger(next: PurchaseStore): void {
+  store = next;
+}
+
+export function getLedger(): PurchaseStore {
+  return store;
+}
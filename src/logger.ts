@@ -6,13 +6,14 @@ const LOG_DIR = path.resolve(import.meta.dirname, "..", "logs");
 fs.mkdirSync(LOG_DIR, { recursive: true });
 
 const logFile = path.join(LOG_DIR, "gateway.log");
-const isDev = process.env.NODE_ENV !== "production";
+// Pretty-printing runs in a worker thread per logger; keep tests on plain JSON
+const isDev = !["production", "test"].includes(process.env.NODE_ENV ?? "development");
 
 const fileStream = pino.destination({ dest: logFile, append: true, sync: false });
 
 export function createLogger(name: string) {
   return pino(
-    { name },
+    { name, level: process.env.LOG_LEVEL ?? "info" },
     pino.multistream([
       // Always write JSON to file
       { stream: fileStream },
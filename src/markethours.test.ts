@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { nextOpen, openMsBetween, parseSchedule } from "./markethours.js";
+import { computePrice, getMarketWindow } from "./pricing.js";
+
+const HOUR_MS = 3_600_000;
+const US_EQUITY =
+  "America/New_York;0930-1600,0930-1600,0930-1600,0930-1600,0930-1600,C,C;1225/C";
+
+// Saturday 2026-10-17, 08:00 in New York
+const SATURDAY = Date.parse("2026-10-17T12:00:00Z");
+// Monday 2026-10-19, 10:00 in New York
+const MONDAY = Date.parse("2026-10-19T14:00:00Z");
+
+describe("market schedules", () => {
+  it("rejects malformed schedules", () => {
+    expect(() => parseSchedule("Mars/Olympus;O,O,O,O,O,O,O;")).toThrow(/timezone/);
+    expect(() => parseSchedule("America/New_York;O,O,O;")).toThrow(/7 days/);
+    expect(() => parseSchedule("America/New_York;1600-0930,O,O,O,O,O,O;")).toThrow(/session/);
+    expect(() => parseSchedule("America/New_York;O,O,O,O,O,O,O;12-25")).toThrow(/holiday/);
+  });
+
+  it("finds the next session in the market's timezone", () => {
+    const schedule = parseSchedule(US_EQUITY);
+    expect(new Date(nextOpen(schedule, SATURDAY)!).toISOString()).toBe("2026-10-19T13:30:00.000Z");
+    expect(nextOpen(schedule, MONDAY)).toBe(MONDAY);
+    expect(nextOpen(parseSchedule("UTC;C,C,C,C,C,C,C;"), MONDAY)).toBeUndefined();
+  });
+
+  it("counts open time across DST changes and holidays", () => {
+    const schedule = parseSchedule(US_EQUITY);
+    // New York leaves DST on 2026-11-01: the Monday session opens at 14:30 UTC
+    const monday = Date.parse("2026-11-02T00:00:00Z");
+    expect(new Date(nextOpen(schedule, monday)!).toISOString()).toBe("2026-11-02T14:30:00.000Z");
+    expect(openMsBetween(schedule, monday, monday + 24 * HOUR_MS)).toBe(6.5 * HOUR_MS);
+    // Christmas 2026 is a Friday
+    const christmas = Date.parse("2026-12-25T00:00:00Z");
+    expect(openMsBetween(schedule, christmas, christmas + 24 * HOUR_MS)).toBe(0);
+  });
+});
+
+describe("calendar pricing", () => {
+  it("starts equity windows bought while closed at the next open", () => {
+    const window = getMarketWindow("equity", "24h", SATURDAY)!;
+    expect(window.startsAt.toISOString()).toBe("2026-10-19T13:30:00.000Z");
+    expect(window.expiresAt.toISOString()).toBe("2026-10-20T13:30:00.000Z");
+    expect(window.tradingHours).toBe(6.5);
+    expect(computePrice("equity", "200ms", "24h", 1, SATURDAY)).toEqual(
+      computePrice("equity", "200ms", "24h", 1, MONDAY)
+    );
+  });
+
+  it("discounts the closed part of FX windows", () => {
+    const weekday = computePrice("fx", "200ms", "1h", 1, MONDAY)!.dollars;
+    const weekend = computePrice("fx", "200ms", "1h", 1, SATURDAY)!.dollars;
+    expect(weekend).toBeCloseTo(weekday * 0.25, 2);
+  });
+
+  it("leaves asset types without market hours untouched", () => {
+    const window = getMarketWindow("crypto", "1h", SATURDAY)!;
+    expect(window).toEqual({
+      startsAt: new Date(SATURDAY),
+      expiresAt: new Date(SATURDAY + HOUR_MS),
+      multiplier: 1,
+    });
+  });
+});
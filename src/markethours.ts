@@ -0,0 +1,151 @@
+/**
+ * Trading calendars in Pyth's schedule format, e.g.
+ * "America/New_York;0930-1600,0930-1600,0930-1600,0930-1600,0930-1600,C,C;1225/C,1127/0930-1300"
+ * — a timezone, one entry per weekday from Monday, then holiday overrides
+ * (MMDD/sessions). A day is "O" (open all day), "C" (closed) or local
+ * HHMM-HHMM ranges joined by "&"; "2400" ends a session at midnight.
+ */
+
+/** Local session on one day, in minutes since midnight. */
+type Session = [from: number, to: number];
+
+export interface MarketSchedule {
+  timezone: string;
+  /** Sessions per weekday, Monday first. */
+  weekly: Session[][];
+  /** MMDD → sessions replacing that day's weekly entry. */
+  holidays: Map<string, Session[]>;
+}
+
+const DAY_MS = 86_400_000;
+
+function parseDay(spec: string): Session[] {
+  if (spec === "O") return [[0, 1440]];
+  if (spec === "C") return [];
+  return spec.split("&").map((range) => {
+    const match = /^(\d{2})(\d{2})-(\d{2})(\d{2})$/.exec(range);
+    if (!match) throw new Error(`Invalid session '${range}'`);
+    const [from, to] = [
+      Number(match[1]) * 60 + Number(match[2]),
+      Number(match[3]) * 60 + Number(match[4]),
+    ];
+    if (Number(match[2]) > 59 || Number(match[4]) > 59 || from >= to || to > 1440) {
+      throw new Error(`Invalid session '${range}'`);
+    }
+    return [from, to];
+  });
+}
+
+const cache = new Map<string, MarketSchedule>();
+
+/** Parse a schedule string. Throws with a descriptive message when it is malformed. */
+export function parseSchedule(spec: string): MarketSchedule {
+  const cached = cache.get(spec);
+  if (cached) return cached;
+
+  const [timezone, weekly = "", holidays = "", ...rest] = spec.split(";");
+  if (rest.length > 0) throw new Error("Expected timezone;weekly;holidays");
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+  } catch {
+    throw new Error(`Unknown timezone '${timezone}'`);
+  }
+  const days = weekly.split(",");
+  if (days.length !== 7) throw new Error("Weekly schedule must list 7 days, Monday first");
+
+  const schedule: MarketSchedule = {
+    timezone,
+    weekly: days.map(parseDay),
+    holidays: new Map(
+      holidays
+        .split(",")
+        .filter(Boolean)
+        .map((entry) => {
+          const match = /^(\d{4})\/(.+)$/.exec(entry);
+          if (!match) throw new Error(`Invalid holiday '${entry}', expected MMDD/sessions`);
+          return [match[1], parseDay(match[2])];
+        })
+    ),
+  };
+  cache.set(spec, schedule);
+  return schedule;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock fields of `ms` in `timezone`. */
+function localParts(ms: number, timezone: string) {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  const parts = Object.fromEntries(
+    formatter.formatToParts(ms).map((p) => [p.type, Number(p.value)])
+  );
+  return parts as Record<"year" | "month" | "day" | "hour" | "minute" | "second", number>;
+}
+
+/** Offset of `timezone` from UTC at `ms`, in ms. */
+function offsetAt(ms: number, timezone: string): number {
+  const p = localParts(ms, timezone);
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wall - Math.floor(ms / 1000) * 1000;
+}
+
+/** UTC instant of a local date and minute of day (1440 is the next midnight). */
+function toUtc(year: number, month: number, day: number, minute: number, timezone: string) {
+  const wall = Date.UTC(year, month - 1, day, 0, minute);
+  const guess = wall - offsetAt(wall, timezone);
+  // Re-read the offset at the guess in case a DST change lies in between
+  return wall - offsetAt(guess, timezone);
+}
+
+/** Open sessions overlapping [startMs, endMs), as UTC intervals in order. */
+export function sessionsBetween(
+  schedule: MarketSchedule,
+  startMs: number,
+  endMs: number
+): Array<[number, number]> {
+  const { timezone } = schedule;
+  const first = localParts(startMs, timezone);
+  const intervals: Array<[number, number]> = [];
+  // Start a day early: yesterday's local sessions may still be running
+  for (let i = -1; ; i++) {
+    const date = new Date(Date.UTC(first.year, first.month - 1, first.day + i));
+    const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+    if (toUtc(year, month, day, 0, timezone) >= endMs) break;
+
+    const mmdd = `${String(month).padStart(2, "0")}${String(day).padStart(2, "0")}`;
+    const sessions =
+      schedule.holidays.get(mmdd) ?? schedule.weekly[(date.getUTCDay() + 6) % 7];
+    for (const [from, to] of sessions) {
+      const open = Math.max(startMs, toUtc(year, month, day, from, timezone));
+      const close = Math.min(endMs, toUtc(year, month, day, to, timezone));
+      if (open < close) intervals.push([open, close]);
+    }
+  }
+  return intervals;
+}
+
+/** Milliseconds the market is open within [startMs, endMs). */
+export function openMsBetween(schedule: MarketSchedule, startMs: number, endMs: number): number {
+  return sessionsBetween(schedule, startMs, endMs).reduce((sum, [a, b]) => sum + b - a, 0);
+}
+
+/**
+ * `fromMs` if the market is open then, otherwise the start of the next
+ * session within two weeks. Undefined for a market that never opens.
+ */
+export function nextOpen(schedule: MarketSchedule, fromMs: number): number | undefined {
+  return sessionsBetween(schedule, fromMs, fromMs + 14 * DAY_MS)[0]?.[0];
+}
@@ -0,0 +1,167 @@
+import type { NextFunction, Request, Response } from "express";
+import type { FacilitatorClient } from "@x402/core/server";
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+
+/**
+ * Prometheus metrics. This module only defines the registry and metrics;
+ * the modules that own each event record it, so it imports nothing from the
+ * rest of the gateway.
+ */
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+const httpRequests = new Counter({
+  name: "gateway_http_requests_total",
+  help: "HTTP requests by route and status",
+  labelNames: ["method", "route", "status"] as const,
+  registers: [registry],
+});
+
+const httpDuration = new Histogram({
+  name: "gateway_http_request_duration_seconds",
+  help: "HTTP request latency by route",
+  labelNames: ["method", "route", "status"] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [registry],
+});
+
+const paymentChallenges = new Counter({
+  name: "gateway_payment_challenges_total",
+  help: "402 Payment Required responses issued, by route",
+  labelNames: ["route"] as const,
+  registers: [registry],
+});
+
+const paymentsSettled = new Counter({
+  name: "gateway_payments_settled_total",
+  help: "Payments settled by the facilitator, by route and network",
+  labelNames: ["route", "network"] as const,
+  registers: [registry],
+});
+
+const facilitatorDuration = new Histogram({
+  name: "gateway_facilitator_request_duration_seconds",
+  help: "Facilitator call latency by operation",
+  labelNames: ["operation"] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30],
+  registers: [registry],
+});
+
+const facilitatorErrors = new Counter({
+  name: "gateway_facilitator_errors_total",
+  help: "Facilitator calls that failed or rejected the payment, by operation and reason",
+  labelNames: ["operation", "reason"] as const,
+  registers: [registry],
+});
+
+const rateLimited = new Counter({
+  name: "gateway_rate_limited_total",
+  help: "Requests rejected with 429, by budget",
+  labelNames: ["budget"] as const,
+  registers: [registry],
+});
+
+const revenue = new Counter({
+  name: "gateway_revenue_usd_total",
+  help: "Settled revenue in USD by pricing tier",
+  labelNames: ["kind", "assetType", "channel", "duration"] as const,
+  registers: [registry],
+});
+
+const symbolsLoaded = new Gauge({
+  name: "gateway_symbols_loaded",
+  help: "Purchasable feeds in the symbol registry, by asset type",
+  labelNames: ["assetType"] as const,
+  registers: [registry],
+});
+
+const pricingReloads = new Counter({
+  name: "gateway_pricing_reloads_total",
+  help: "pricing.json reloads by result",
+  labelNames: ["result"] as const,
+  registers: [registry],
+});
+
+/**
+ * Route template for a request, e.g. "/v1/purchase/crypto/200ms/1h" or
+ * "/admin/purchases/:id/refund". Unmatched paths share one label so
+ * scanners cannot blow up label cardinality.
+ */
+export function routeLabel(req: Request): string {
+  return req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+}
+
+/** Count and time every request, and count 402 challenges. */
+export function metricsMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const stop = httpDuration.startTimer();
+  res.once("finish", () => {
+    const labels = { method: req.method, route: routeLabel(req), status: String(res.statusCode) };
+    stop(labels);
+    httpRequests.inc(labels);
+    if (res.statusCode === 402) paymentChallenges.inc({ route: labels.route });
+  });
+  next();
+}
+
+export function recordSettlement(req: Request, network: string): void {
+  paymentsSettled.inc({ route: routeLabel(req), network });
+}
+
+export function recordRateLimited(budget: string): void {
+  rateLimited.inc({ budget });
+}
+
+export function recordRevenue(
+  kind: "purchase" | "renewal" | "price" | "history",
+  tier: { assetType: string; channel: string; duration: string },
+  dollars: number
+): void {
+  revenue.inc({ kind, ...tier }, dollars);
+}
+
+export function recordSymbolCounts(counts: Record<string, number>): void {
+  symbolsLoaded.reset();
+  for (const [assetType, count] of Object.entries(counts)) symbolsLoaded.set({ assetType }, count);
+}
+
+export function recordPricingReload(result: "success" | "failure"): void {
+  pricingReloads.inc({ result });
+}
+
+/** Wrap a facilitator so every call is timed and failures are counted. */
+export function instrumentFacilitator(client: FacilitatorClient): FacilitatorClient {
+  async function timed<T>(
+    operation: string,
+    call: () => Promise<T>,
+    failure: (result: T) => string | undefined
+  ): Promise<T> {
+    const stop = facilitatorDuration.startTimer({ operation });
+    try {
+      const result = await call();
+      const reason = failure(result);
+      if (reason) facilitatorErrors.inc({ operation, reason });
+      return result;
+    } catch (err) {
+      facilitatorErrors.inc({ operation, reason: "request_failed" });
+      throw err;
+    } finally {
+      stop();
+    }
+  }
+
+  return {
+    verify: (payload, requirements) =>
+      timed(
+        "verify",
+        () => client.verify(payload, requirements),
+        (r) => (r.isValid ? undefined : r.invalidReason ?? "invalid")
+      ),
+    settle: (payload, requirements) =>
+      timed(
+        "settle",
+        () => client.settle(payload, requirements),
+        (r) => (r.success ? undefined : r.errorReason ?? "failed")
+      ),
+    getSupported: () => timed("getSupported", () => client.getSupported(), () => undefined),
+  };
+}
@@ -0,0 +1,406 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { x402Version } from "@x402/core";
+import { computeSnapshotPrice, getAllRouteConfigs, getAssetTypes, getPricing } from "./pricing.js";
+import { getPaymentOptions, type PaymentOption } from "./payment.js";
+import { purchaseBody } from "./routes/purchase.js";
+import { renewBody } from "./routes/renew.js";
+import { historyQuery } from "./routes/price.js";
+import { querySchema as pricingQuery } from "./routes/pricing.js";
+import { querySchema as symbolsQuery } from "./routes/symbols.js";
+import { policyBody } from "./routes/wallets.js";
+import { verifyReceiptBody } from "./routes/receipts.js";
+import { topupBody } from "./routes/credits.js";
+
+const version = process.env.npm_package_version ?? "0.1.0";
+const TITLE = "Pyth Pro x402 Gateway";
+
+type JsonSchema = Record<string, unknown>;
+
+/** A route that answers 402 until paid. */
+export interface PayableResource {
+  method: "GET" | "POST";
+  /** OpenAPI path template, e.g. "/v1/price/{ticker}". */
+  path: string;
+  description: string;
+  /** USD price charged now for the simplest request; null when quoted from the request. */
+  price: string | null;
+  /** Per-call prices that depend on the asset type of the requested feed. */
+  priceByAssetType?: Record<string, string>;
+  /** How the charged amount is derived and when it differs from `price`. */
+  pricing: string;
+}
+
+/**
+ * Every payable resource under the current pricing.json, with the price a
+ * request made now would be charged.
+ */
+export function getPayableResources(): PayableResource[] {
+  const resources: PayableResource[] = getAllRouteConfigs().map((r) => ({
+    method: "POST",
+    path: r.routePath,
+    description: `Purchase ${r.duration} ${r.assetType} access at ${r.channel} rate`,
+    price: r.price,
+    pricing:
+      "Single-feed price including current surge and market-hours rules. Bundles are " +
+      "priced per pricing.bundle; store credit of the X-Wallet-Address wallet is deducted. " +
+      "A CREDIT-AUTHORIZATION header pays it from the prepaid balance instead.",
+  }));
+  resources.push({
+    method: "POST",
+    path: "/v1/credits/topup",
+    description: "Top up the prepaid balance purchases can be paid from",
+    price: null,
+    pricing: "The amount in the body, added to the payer's balance once settled.",
+  });
+  resources.push({
+    method: "POST",
+    path: "/v1/renew",
+    description: "Extend or upgrade an existing purchase",
+    price: null,
+    pricing:
+      "Quoted from the body: the added duration at the target channel, plus a prorated " +
+      "upgrade fee for the time remaining when changing channel.",
+  });
+
+  if (getPricing().snapshots) {
+    const assetTypes = Object.keys(getAssetTypes());
+    for (const product of ["price", "history"] as const) {
+      resources.push({
+        method: "GET",
+        path: `/v1/${product}/{ticker}`,
+        description:
+          product === "price" ? "Latest verified price of one feed" : "OHLC price history of one feed",
+        price: null,
+        priceByAssetType: Object.fromEntries(
+          assetTypes.map((at) => [at, computeSnapshotPrice(product, at)!.formatted])
+        ),
+        pricing: "Per call, by the asset type of the requested feed.",
+      });
+    }
+  }
+  return resources;
+}
+
+/** JSON Schema for a zod schema, in the dialect OpenAPI 3.1 embeds. */
+function jsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const { $schema: _, ...rest } = zodToJsonSchema(schema, { $refStrategy: "none" }) as JsonSchema;
+  return rest;
+}
+
+/** One query parameter per field of a zod object schema. */
+function queryParameters(schema: z.AnyZodObject) {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, field]) => ({
+    name,
+    in: "query",
+    required: !field.isOptional(),
+    schema: jsonSchema(field),
+  }));
+}
+
+const tickerParameter = {
+  name: "ticker",
+  in: "path",
+  required: true,
+  description: "Short ticker (BTC-USD), canonical ID (Crypto.BTC-USD) or feed ID",
+  schema: { type: "string" },
+};
+
+const walletParameter = {
+  name: "wallet",
+  in: "path",
+  required: true,
+  description: "EVM address of the buying wallet",
+  schema: { type: "string" },
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+const okResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { type: "object" } } },
+});
+
+/** Responses shared by every paid operation. */
+const paidResponses = {
+  "402": {
+    description:
+      "Payment required. The PAYMENT-REQUIRED header carries the x402 challenge; retry " +
+      "with a PAYMENT-SIGNATURE header. PAYMENT-RESPONSE on the paid response carries the settlement.",
+  },
+  "400": errorResponse("Invalid request, rejected before any payment challenge"),
+  "403": errorResponse(
+    "Wallet blocked, spending policy would be exceeded, or store credit claimed by another wallet; not charged"
+  ),
+  "429": errorResponse("Rate limited; see Retry-After"),
+  "503": errorResponse("Payments temporarily unavailable"),
+};
+
+/** OpenAPI operation for a payable resource, with its x402 price annotation. */
+function paidOperation(
+  resource: PayableResource,
+  networks: string[],
+  operation: Record<string, unknown>,
+  response: string
+) {
+  return {
+    summary: resource.description,
+    ...operation,
+    responses: { "200": okResponse(response), ...paidResponses },
+    "x-x402": {
+      scheme: "exact",
+      price: resource.price,
+      ...(resource.priceByAssetType && { priceByAssetType: resource.priceByAssetType }),
+      pricing: resource.pricing,
+      networks,
+    },
+  };
+}
+
+/**
+ * OpenAPI 3.1 description of the public API, generated from the request
+ * schemas and the current route table. Paid operations carry an `x-x402`
+ * annotation with their price and accepted networks.
+ */
+export async function buildOpenApiDocument(): Promise<Record<string, unknown>> {
+  const paymentOptions = await getPaymentOptions();
+  const networks = [...new Set(paymentOptions.map((o) => o.network))];
+  const paths: Record<string, Record<string, unknown>> = {
+    "/v1/pricing": {
+      get: {
+        summary: "Price tiers, bundle quotes, market hours and payment options",
+        parameters: queryParameters(pricingQuery),
+        responses: { "200": okResponse("Pricing matrix"), "400": errorResponse("Invalid query") },
+      },
+    },
+    "/v1/symbols": {
+      get: {
+        summary: "Search feeds",
+        parameters: queryParameters(symbolsQuery),
+        responses: { "200": okResponse("Matching feeds"), "400": errorResponse("Invalid query") },
+      },
+    },
+    "/v1/wallets/{wallet}/policy": {
+      put: {
+        summary: "Register the wallet's spending policy, signed by the wallet (EIP-712)",
+        description:
+          "Tightening applies at once; loosening applies after a delay. Paid requests the " +
+          "policy forbids are refused with 403 before the challenge and before settlement.",
+        parameters: [walletParameter],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": { schema: { $ref: "#/components/schemas/SpendingPolicyRequest" } },
+          },
+        },
+        responses: {
+          "200": okResponse("Budget under the registered policy"),
+          "400": errorResponse("Invalid or stale policy"),
+          "401": errorResponse("Signature does not match the wallet"),
+        },
+      },
+    },
+    "/v1/wallets/{wallet}/budget": {
+      get: {
+        summary: "Spending policy in force and what the wallet may still spend today",
+        parameters: [walletParameter],
+        responses: { "200": okResponse("Budget"), "400": errorResponse("Invalid wallet") },
+      },
+    },
+    "/v1/credits/{wallet}": {
+      get: {
+        summary: "Prepaid balance and store credit of a wallet",
+        parameters: [walletParameter],
+        responses: { "200": okResponse("Balance"), "400": errorResponse("Invalid wallet") },
+      },
+    },
+    "/v1/receipts/verify": {
+      post: {
+        summary: "Check a purchase receipt's signature against the gateway key",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": { schema: { $ref: "#/components/schemas/VerifyReceiptRequest" } },
+          },
+        },
+        responses: {
+          "200": okResponse("Whether the receipt is valid, and its claims if so"),
+          "400": errorResponse("Invalid body"),
+        },
+      },
+    },
+    "/health/ready": {
+      get: {
+        summary: "Readiness with per-dependency checks",
+        responses: { "200": okResponse("Ready"), "503": okResponse("Not ready") },
+      },
+    },
+    "/.well-known/x402": {
+      get: {
+        summary: "x402 resource manifest: every payable resource, its price and networks",
+        responses: { "200": okResponse("Manifest") },
+      },
+    },
+    "/.well-known/jwks.json": {
+      get: {
+        summary: "Public key (JWK Set) purchase receipts are signed with",
+        responses: { "200": okResponse("JWK Set") },
+      },
+    },
+  };
+
+  for (const resource of getPayableResources()) {
+    const method = resource.method.toLowerCase();
+    if (resource.path.startsWith("/v1/purchase/")) {
+      paths[resource.path] = {
+        [method]: paidOperation(
+          resource,
+          networks,
+          {
+            description:
+              "Provide exactly one of ticker, tickers, feedId or feedIds. The paid response " +
+              "carries a signed receipt (compact JWS) as `receipt` and in the PURCHASE-RECEIPT " +
+              "header.",
+            parameters: [
+              {
+                name: "X-Wallet-Address",
+                in: "header",
+                required: false,
+                description: "Wallet whose store credit to apply; must sign the payment",
+                schema: { type: "string" },
+              },
+              {
+                name: "CREDIT-AUTHORIZATION",
+                in: "header",
+                required: false,
+                description:
+                  "base64url JSON of a signed CreditDrawdown (EIP-712). Pays from the prepaid " +
+                  "balance with no challenge; answered with 402 when the balance does not cover it",
+                schema: { type: "string" },
+              },
+            ],
+            requestBody: {
+              required: true,
+              content: {
+                "application/json": { schema: { $ref: "#/components/schemas/PurchaseRequest" } },
+              },
+            },
+          },
+          "Scoped access token, relay URL and subscribe message"
+        ),
+      };
+    } else if (resource.path === "/v1/credits/topup") {
+      paths[resource.path] = {
+        [method]: paidOperation(
+          resource,
+          networks,
+          {
+            requestBody: {
+              required: true,
+              content: {
+                "application/json": { schema: { $ref: "#/components/schemas/TopupRequest" } },
+              },
+            },
+          },
+          "Amount added and the balance once settled"
+        ),
+      };
+    } else if (resource.path === "/v1/renew") {
+      paths[resource.path] = {
+        [method]: paidOperation(
+          resource,
+          networks,
+          {
+            description:
+              "Provide either purchaseId or tokenId. The paid response carries a signed " +
+              "renewal receipt as `receipt` and in the PURCHASE-RECEIPT header.",
+            requestBody: {
+              required: true,
+              content: {
+                "application/json": { schema: { $ref: "#/components/schemas/RenewRequest" } },
+              },
+            },
+          },
+          "New expiry, price breakdown and subscribe message"
+        ),
+      };
+    } else {
+      const history = resource.path.startsWith("/v1/history/");
+      paths[resource.path] = {
+        [method]: paidOperation(
+          resource,
+          networks,
+          {
+            parameters: [tickerParameter, ...(history ? queryParameters(historyQuery) : [])],
+          },
+          history ? "OHLC bars" : "Price, confidence and signed update"
+        ),
+      };
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: TITLE,
+      version,
+      description:
+        "Pay-per-use access to Pyth Pro price data over x402. Paid operations answer 402 " +
+        "with a payment challenge; see x-x402 for prices and /.well-known/x402 for the manifest.",
+    },
+    paths,
+    components: {
+      schemas: {
+        PurchaseRequest: jsonSchema(purchaseBody),
+        RenewRequest: jsonSchema(renewBody),
+        TopupRequest: jsonSchema(topupBody),
+        SpendingPolicyRequest: jsonSchema(policyBody),
+        VerifyReceiptRequest: jsonSchema(verifyReceiptBody),
+        Error: {
+          type: "object",
+          required: ["error"],
+          properties: {
+            error: {
+              type: "object",
+              required: ["code", "message"],
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                hint: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+    },
+    "x-x402": { x402Version, paymentOptions },
+  };
+}
+
+/** `/.well-known/x402`: payable resources with prices and accepted networks. */
+export async function buildX402Manifest(): Promise<{
+  x402Version: number;
+  name: string;
+  version: string;
+  openapi: string;
+  paymentOptions: PaymentOption[];
+  resources: Array<PayableResource & { mimeType: string; networks: string[] }>;
+}> {
+  const paymentOptions = await getPaymentOptions();
+  const networks = [...new Set(paymentOptions.map((o) => o.network))];
+  return {
+    x402Version,
+    name: TITLE,
+    version,
+    openapi: "/openapi.json",
+    paymentOptions,
+    resources: getPayableResources().map((r) => ({
+      ...r,
+      mimeType: "application/json",
+      networks,
+    })),
+  };
+}
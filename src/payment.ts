@@ -0,0 +1,393 @@
+import { randomUUID } from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+import {
+  decodePaymentResponseHeader,
+  decodePaymentSignatureHeader,
+} from "@x402/core/http";
+import type { Network, PaymentPayload } from "@x402/core/types";
+import { isPermit2Payload, type ExactEvmPayloadV2 } from "@x402/evm";
+import { ExactEvmScheme } from "@x402/evm/exact/server";
+import { verifyTypedData } from "viem";
+import { acceptedPayments } from "./config.js";
+import { createLogger } from "./logger.js";
+import { drawCredit, issueCredit } from "./credits.js";
+import {
+  CREDIT_AUTHORIZATION_HEADER,
+  creditTypedData,
+  decodeCreditAuthorization,
+} from "./creditmessage.js";
+import { getBlocklist } from "./blocklist.js";
+import { recordSettlement } from "./metrics.js";
+import { recordSpend } from "./policies.js";
+
+const logger = createLogger("payment");
+
+/** A way to pay, as advertised to buyers. */
+export interface PaymentOption {
+  scheme: "exact";
+  network: string;
+  payTo: string;
+  /** Token contract address. */
+  asset: string;
+  symbol: string;
+  decimals: number;
+}
+
+let paymentOptions: Promise<PaymentOption[]> | undefined;
+
+/** Accepted payment options, with default-USDC entries resolved to token addresses. */
+export function getPaymentOptions(): Promise<PaymentOption[]> {
+  paymentOptions ??= Promise.all(
+    acceptedPayments.map(async (option): Promise<PaymentOption> => {
+      const base = { scheme: "exact" as const, network: option.network, payTo: option.payTo };
+      if (option.asset) {
+        return {
+          ...base,
+          asset: option.asset.address,
+          symbol: option.asset.symbol ?? option.asset.name,
+          decimals: option.asset.decimals,
+        };
+      }
+      // $1 in the network's default stablecoin is 10^decimals base units
+      const { asset, amount } = await new ExactEvmScheme().parsePrice(
+        "$1",
+        option.network as Network
+      );
+      return { ...base, asset, symbol: "USDC", decimals: amount.length - 1 };
+    })
+  ).catch((err) => {
+    paymentOptions = undefined;
+    throw err;
+  });
+  return paymentOptions;
+}
+
+/**
+ * What was paid for the current request, taken from the verified x402
+ * payload — or, for a drawdown from the prepaid balance, from the signed
+ * credit authorization (scheme, network and asset "credit", amount in cents).
+ */
+export interface PaymentContext {
+  /** Wallet that signed the payment authorization. */
+  payer: string;
+  /** Amount in the asset's smallest unit (e.g. 1000000 = 1 USDC). */
+  amount: string;
+  /** Token contract address. */
+  asset: string;
+  /** CAIP-2 network, e.g. "eip155:8453". */
+  network: string;
+  /** "exact" for x402 payments, "credit" for drawdowns. */
+  scheme: string;
+  /** Authorization nonce — unique per payment. */
+  nonce: string | null;
+  /** Settlement transaction hash; null until the facilitator has settled. */
+  txHash: string | null;
+  /** Purchase ID reserved by a drawdown, so its balance entries name the purchase. */
+  purchaseId?: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      payment?: PaymentContext;
+    }
+  }
+}
+
+function fromPayload(decoded: PaymentPayload): PaymentContext {
+  const evm = decoded.payload as ExactEvmPayloadV2;
+  const auth = isPermit2Payload(evm)
+    ? { from: evm.permit2Authorization.from, nonce: evm.permit2Authorization.nonce }
+    : { from: evm.authorization?.from, nonce: evm.authorization?.nonce };
+  if (!auth.from) throw new Error("Payment payload has no payer");
+  return {
+    payer: auth.from,
+    amount: decoded.accepted.amount,
+    asset: decoded.accepted.asset,
+    network: decoded.accepted.network,
+    scheme: decoded.accepted.scheme,
+    nonce: auth.nonce ?? null,
+    txHash: null,
+  };
+}
+
+/**
+ * Decode the payment payload onto `req.payment`. Mount only on x402-gated
+ * routes after the payment middleware: a request that reaches it carries a
+ * payload the facilitator has already verified, so unlike a client-supplied
+ * header the payer cannot be spoofed. Payments from blocked wallets are
+ * refused here, before they are settled.
+ */
+export async function attachPaymentContext(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  // Paid from the balance by payWithCredit, which has already checked the wallet
+  if (req.payment?.scheme === "credit") return next();
+  const header = req.get("payment-signature") ?? req.get("x-payment");
+  let payment: PaymentContext;
+  try {
+    if (!header) throw new Error("Missing payment header");
+    payment = fromPayload(decodePaymentSignatureHeader(header));
+  } catch (err) {
+    // Responding with an error status means the payment is never settled
+    logger.warn({ err }, "Could not decode verified payment payload");
+    res.status(400).json({
+      error: { code: "INVALID_PAYMENT_PAYLOAD", message: "Could not read the payment payload" },
+    });
+    return;
+  }
+
+  try {
+    if (await getBlocklist().get(payment.payer)) {
+      logger.warn({ payer: payment.payer, path: req.path }, "Payment from blocked wallet refused");
+      res.status(403).json({
+        error: { code: "WALLET_BLOCKED", message: "This wallet may not make purchases" },
+      });
+      return;
+    }
+  } catch (err) {
+    next(err);
+    return;
+  }
+  req.payment = payment;
+  next();
+}
+
+/** The payment context of a request on an x402-gated route. */
+export function getPayment(req: Request): PaymentContext {
+  if (!req.payment) throw new Error("No payment context — route is not behind attachPaymentContext");
+  return req.payment;
+}
+
+/**
+ * The x402 middleware settles after the handler responds and only then sets
+ * PAYMENT-RESPONSE, so ledger writes happen once the response has been sent
+ * successfully. `callback` receives the payment context with `txHash` filled
+ * in from the settlement; drawdowns from the balance have none.
+ *
+ * If the payment settles but the buyer disconnected before receiving the
+ * response, `charged` (USD) is issued as store credit instead. Drawdowns
+ * from the balance are not counted against the payer's spending policy:
+ * the top-up that funded them was.
+ */
+export function onSettled(
+  req: Request,
+  res: Response,
+  charged: number,
+  callback: (payment: PaymentContext) => Promise<unknown>
+) {
+  const payment = getPayment(req);
+  let settled = false;
+  let handled = false;
+
+  function readSettlement() {
+    const header = res.getHeader("PAYMENT-RESPONSE");
+    if (typeof header !== "string") return;
+    try {
+      const settlement = decodePaymentResponseHeader(header);
+      payment.txHash = settlement.transaction || null;
+      if (settlement.payer) payment.payer = settlement.payer;
+    } catch (err) {
+      logger.warn({ err }, "Could not decode settlement header");
+    }
+  }
+
+  // Money left the wallet either way, so it counts towards its daily cap
+  function countSpend() {
+    if (payment.scheme === "credit") return;
+    recordSpend(payment.payer, charged).catch((err) =>
+      logger.error({ err, payer: payment.payer }, "Failed to record spend")
+    );
+  }
+
+  function creditUndelivered() {
+    if (handled) return;
+    handled = true;
+    readSettlement();
+    logger.warn(
+      { payer: payment.payer, txHash: payment.txHash },
+      "Payment settled but response not delivered"
+    );
+    issueCredit(payment.payer, charged, "response_not_delivered", { txHash: payment.txHash })
+      .catch((err) => logger.error({ err, txHash: payment.txHash }, "Failed to issue credit"));
+    countSpend();
+  }
+
+  // PAYMENT-RESPONSE is only set once settlement succeeded, which can be
+  // after the buyer has already gone away
+  const setHeader = res.setHeader.bind(res);
+  res.setHeader = ((name: string, value: number | string | readonly string[]) => {
+    setHeader(name, value);
+    if (name.toLowerCase() === "payment-response") {
+      settled = true;
+      if (res.destroyed) creditUndelivered();
+    }
+    return res;
+  }) as Response["setHeader"];
+  res.once("close", () => {
+    if (settled && !res.writableFinished) creditUndelivered();
+  });
+
+  res.once("finish", () => {
+    if (handled || res.statusCode >= 400) return;
+    handled = true;
+    readSettlement();
+    if (payment.scheme !== "credit") recordSettlement(req, payment.network);
+    countSpend();
+
+    logger.info(
+      { payer: payment.payer, network: payment.network, nonce: payment.nonce, txHash: payment.txHash },
+      "Payment settled"
+    );
+    callback(payment).catch((err) =>
+      logger.error({ err, txHash: payment.txHash }, "Failed to record settled payment")
+    );
+  });
+}
+
+/**
+ * USD value of an x402 payment, from the decimals of the option it paid
+ * with; undefined for an asset the gateway does not advertise.
+ */
+export async function paidDollars(payment: PaymentContext): Promise<number | undefined> {
+  const option = (await getPaymentOptions()).find(
+    (o) => o.network === payment.network && o.asset.toLowerCase() === payment.asset.toLowerCase()
+  );
+  return option && Number(payment.amount) / 10 ** option.decimals;
+}
+
+/**
+ * Give `dollars` of balance taken for this request back to `wallet` if the
+ * response fails or never finishes — with x402, that means the payment was
+ * not settled or its response never reached the buyer.
+ */
+export function refundUnlessDelivered(
+  res: Response,
+  wallet: string,
+  dollars: number,
+  reason: string,
+  purchaseId?: string
+): void {
+  res.once("close", () => {
+    if (res.writableFinished && res.statusCode < 400) return;
+    issueCredit(wallet, dollars, reason, { purchaseId }).catch((err) =>
+      logger.error({ err, wallet, reason }, "Failed to return balance")
+    );
+  });
+}
+
+/** How far a credit authorization's `issuedAt` may be from the gateway's clock. */
+const MAX_AUTHORIZATION_AGE_MS = 300_000;
+
+/**
+ * Pay for a request from the wallet's prepaid balance when it sends a
+ * signed `CREDIT-AUTHORIZATION`, skipping the x402 challenge and any
+ * on-chain settlement. Mount before the payment middleware. The balance is
+ * debited here and credited back if the response fails or never finishes.
+ * A request the balance (or the signed `maxAmount`) does not cover falls
+ * through to the normal 402 challenge.
+ */
+export function payWithCredit<R extends Request>(price: (req: R) => Promise<number | undefined>) {
+  return async (req: R, res: Response, next: NextFunction): Promise<void> => {
+    const header = req.get(CREDIT_AUTHORIZATION_HEADER);
+    // A retry that carries an x402 payment (after falling back) pays on-chain
+    if (!header || req.get("payment-signature") || req.get("x-payment")) return next();
+
+    let authorization;
+    try {
+      authorization = decodeCreditAuthorization(header);
+    } catch {
+      res.status(400).json({
+        error: {
+          code: "INVALID_CREDIT_AUTHORIZATION",
+          message: "Could not read the CREDIT-AUTHORIZATION header",
+          hint: "Send base64url JSON of { wallet, resource, maxAmount, nonce, issuedAt, signature }",
+        },
+      });
+      return;
+    }
+    const { signature, ...message } = authorization;
+    const resource = req.baseUrl + req.path;
+
+    try {
+      const valid =
+        message.resource === resource &&
+        (await verifyTypedData({
+          address: message.wallet,
+          ...creditTypedData(message),
+          signature,
+        }).catch(() => false));
+      if (!valid) {
+        res.status(401).json({
+          error: {
+            code: "INVALID_CREDIT_AUTHORIZATION",
+            message: "The credit authorization was not signed by this wallet for this resource",
+            hint: `Sign the CreditDrawdown EIP-712 message with resource '${resource}'`,
+          },
+        });
+        return;
+      }
+      const stale = () =>
+        res.status(400).json({
+          error: {
+            code: "STALE_CREDIT_AUTHORIZATION",
+            message: "The credit authorization has expired or was already used",
+            hint: "Sign a new authorization with a fresh nonce and the current time",
+          },
+        });
+      if (Math.abs(Date.now() - message.issuedAt) > MAX_AUTHORIZATION_AGE_MS) {
+        stale();
+        return;
+      }
+      if (await getBlocklist().get(message.wallet)) {
+        logger.warn({ payer: message.wallet, path: req.path }, "Drawdown from blocked wallet refused");
+        res.status(403).json({
+          error: { code: "WALLET_BLOCKED", message: "This wallet may not make purchases" },
+        });
+        return;
+      }
+
+      // Reserved now so the drawdown and any refund link to the ledger record
+      const purchaseId = randomUUID();
+      // Charged in cents, against maxAmount as it was signed (also in cents)
+      const quoted = await price(req);
+      const dollars = quoted === undefined ? undefined : Math.round(quoted * 100) / 100;
+      const signedMax = Number(creditTypedData(message).message.maxAmount);
+      const fallBack = () => {
+        logger.info(
+          { payer: message.wallet, dollars, path: req.path },
+          "Balance does not cover the request; falling back to the x402 challenge"
+        );
+        next();
+      };
+      if (dollars === undefined || dollars > signedMax) return fallBack();
+      const drawdown = await drawCredit(message.wallet, dollars, {
+        nonce: message.nonce,
+        purchaseId,
+      });
+      if (drawdown === "replayed") {
+        stale();
+        return;
+      }
+      if (drawdown === "insufficient") return fallBack();
+
+      req.payment = {
+        payer: message.wallet,
+        amount: String(Math.round(dollars * 100)),
+        asset: "credit",
+        network: "credit",
+        scheme: "credit",
+        nonce: message.nonce,
+        txHash: null,
+        purchaseId,
+      };
+      refundUnlessDelivered(res, message.wallet, dollars, "drawdown_refund", purchaseId);
+    } catch (err) {
+      next(err);
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,360 @@
+import path from "node:path";
+import type { NextFunction, Request, Response } from "express";
+import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+import { createJsonlStore } from "./jsonl.js";
+import type { SpendingLimits } from "./policymessage.js";
+import { CREDIT_AUTHORIZATION_HEADER } from "./creditmessage.js";
+
+const logger = createLogger("policies");
+
+/** Settled charges older than this can no longer count towards a daily cap. */
+const SPEND_RETENTION_MS = 2 * 86_400_000;
+
+/** A wallet-signed set of limits and the time it applies from. */
+export interface PolicyRecord {
+  limits: SpendingLimits;
+  /** Unix milliseconds, as signed. */
+  issuedAt: number;
+  signature: string;
+  effectiveAt: string;
+}
+
+/**
+ * A wallet's policy in force, plus a loosened one waiting out
+ * `POLICY_LOOSEN_DELAY_HOURS`.
+ */
+export interface WalletPolicy {
+  wallet: string;
+  active: PolicyRecord;
+  pending?: PolicyRecord;
+}
+
+/** A settled charge counted towards a wallet's daily cap. */
+export interface SpendEntry {
+  wallet: string;
+  /** USD. */
+  dollars: number;
+  at: string;
+}
+
+/** Storage backend for spending policies. Wallets compare case-insensitively. */
+export interface PolicyStore {
+  get(wallet: string): Promise<WalletPolicy | undefined>;
+  put(policy: WalletPolicy): Promise<void>;
+  addSpend(entry: SpendEntry): Promise<void>;
+  /** USD charged to `wallet` at or after `since`. */
+  spentSince(wallet: string, since: Date): Promise<number>;
+}
+
+const round = (dollars: number) => Math.round(dollars * 100) / 100;
+
+/** Policies and spends kept in memory only, so limits reset on restart. */
+export function createMemoryPolicyStore(): PolicyStore {
+  const policies = new Map<string, WalletPolicy>();
+  const spends = new Map<string, SpendEntry[]>();
+
+  return {
+    async get(wallet) {
+      const policy = policies.get(wallet.toLowerCase());
+      return policy && structuredClone(policy);
+    },
+    async put(policy) {
+      policies.set(policy.wallet.toLowerCase(), structuredClone(policy));
+    },
+    async addSpend(entry) {
+      const key = entry.wallet.toLowerCase();
+      const cutoff = Date.now() - SPEND_RETENTION_MS;
+      spends.set(key, [
+        ...(spends.get(key) ?? []).filter((s) => Date.parse(s.at) >= cutoff),
+        { ...entry },
+      ]);
+    },
+    async spentSince(wallet, since) {
+      const entries = spends.get(wallet.toLowerCase()) ?? [];
+      return round(
+        entries
+          .filter((s) => Date.parse(s.at) >= since.getTime())
+          .reduce((sum, s) => sum + s.dollars, 0)
+      );
+    },
+  };
+}
+
+/** Policy updates and spends persisted to a JSON Lines file; old spends are dropped on load. */
+export async function createFilePolicyStore(filePath: string): Promise<PolicyStore> {
+  const memory = createMemoryPolicyStore();
+  const cutoff = Date.now() - SPEND_RETENTION_MS;
+  const file = await createJsonlStore<WalletPolicy | SpendEntry>(filePath, async (entry) => {
+    if ("active" in entry) await memory.put(entry);
+    else if (Date.parse(entry.at) >= cutoff) await memory.addSpend(entry);
+  });
+  if (file.replayed > 0) logger.info({ filePath }, "Spending policies loaded");
+
+  return {
+    get: memory.get,
+    async put(policy) {
+      await memory.put(policy);
+      await file.append(policy);
+    },
+    async addSpend(entry) {
+      await memory.addSpend(entry);
+      await file.append(entry);
+    },
+    spentSince: memory.spentSince,
+  };
+}
+
+const DEFAULT_POLICY_FILE = path.resolve(import.meta.dirname, "..", "data", "policies.jsonl");
+
+let store: PolicyStore = createMemoryPolicyStore();
+
+/** Open the policy store next to the purchase ledger. Call once at startup. */
+export async function initPolicies(): Promise<void> {
+  if (config.LEDGER_DRIVER === "memory") {
+    store = createMemoryPolicyStore();
+    return;
+  }
+  store = await createFilePolicyStore(
+    config.LEDGER_FILE
+      ? path.join(path.dirname(config.LEDGER_FILE), "policies.jsonl")
+      : DEFAULT_POLICY_FILE
+  );
+}
+
+/** Swap the policy backend (e.g. an in-memory store in tests). */
+export function setPolicies(next: PolicyStore): void {
+  store = next;
+}
+
+export function getPolicies(): PolicyStore {
+  return store;
+}
+
+/** The record in force at `now`: the pending one once its delay has passed. */
+function inForce(policy: WalletPolicy, now: number): PolicyRecord {
+  return policy.pending && Date.parse(policy.pending.effectiveAt) <= now
+    ? policy.pending
+    : policy.active;
+}
+
+/** Whether `next` allows anything `current` does not. */
+function loosens(next: SpendingLimits, current: SpendingLimits): boolean {
+  const cap = (dollars?: number) => dollars ?? Infinity;
+  const widens = (nextList?: string[], currentList?: string[]) =>
+    currentList !== undefined &&
+    (nextList === undefined || nextList.some((v) => !currentList.includes(v)));
+  return (
+    cap(next.maxPerPurchase) > cap(current.maxPerPurchase) ||
+    cap(next.maxPerDay) > cap(current.maxPerDay) ||
+    widens(next.allowedAssetTypes, current.allowedAssetTypes) ||
+    widens(next.allowedChannels, current.allowedChannels)
+  );
+}
+
+/** Unix milliseconds of the newest policy `wallet` has signed, if any. */
+export async function lastIssuedAt(wallet: string): Promise<number | undefined> {
+  const policy = await store.get(wallet);
+  return policy && (policy.pending ?? policy.active).issuedAt;
+}
+
+/**
+ * Store a verified policy. A first policy, or one that only tightens the
+ * limits in force, applies at once and cancels any pending loosening. One
+ * that loosens anything waits `POLICY_LOOSEN_DELAY_HOURS`, so an agent
+ * holding the wallet key cannot lift its own limits on the spot.
+ */
+export async function registerPolicy(
+  wallet: string,
+  record: Omit<PolicyRecord, "effectiveAt">,
+  now = Date.now()
+): Promise<WalletPolicy> {
+  const existing = await store.get(wallet);
+  const current = existing && inForce(existing, now);
+  const delayed = current !== undefined && loosens(record.limits, current.limits);
+  const effectiveAt = new Date(
+    delayed ? now + config.POLICY_LOOSEN_DELAY_HOURS * 3_600_000 : now
+  ).toISOString();
+  const next: WalletPolicy = delayed
+    ? { wallet, active: current, pending: { ...record, effectiveAt } }
+    : { wallet, active: { ...record, effectiveAt } };
+  await store.put(next);
+  logger.info({ wallet, limits: record.limits, effectiveAt, delayed }, "Spending policy registered");
+  return next;
+}
+
+/** Midnight UTC starting the day `now` falls in. */
+function dayStart(now: number): Date {
+  const start = new Date(now);
+  start.setUTCHours(0, 0, 0, 0);
+  return start;
+}
+
+/** What a paid request would charge, for checking against a policy. */
+export interface Spend {
+  /** Omitted for top-ups, which buy no feeds. */
+  assetType?: string;
+  /** Streaming purchases and renewals only. */
+  channel?: string;
+  /** USD. */
+  dollars: number;
+  /**
+   * Paid from the prepaid balance. The top-up already counted towards the
+   * daily cap, so the drawdown is held to the other limits only.
+   */
+  fromBalance?: boolean;
+}
+
+/** USD of paid requests that passed the policy check but have not finished, per wallet. */
+const held = new Map<string, number>();
+
+function hold(wallet: string, dollars: number, res: Response): void {
+  const key = wallet.toLowerCase();
+  held.set(key, round((held.get(key) ?? 0) + dollars));
+  res.once("close", () => {
+    const remaining = round((held.get(key) ?? 0) - dollars);
+    if (remaining > 0) held.set(key, remaining);
+    else held.delete(key);
+  });
+}
+
+/** The policy rule `spend` would break for `wallet`, if any. */
+export async function checkSpend(
+  wallet: string,
+  spend: Spend,
+  now = Date.now()
+): Promise<{ code: string; message: string; hint?: string } | undefined> {
+  const policy = await store.get(wallet);
+  if (!policy) return undefined;
+  const { limits } = inForce(policy, now);
+
+  if (
+    spend.assetType &&
+    limits.allowedAssetTypes &&
+    !limits.allowedAssetTypes.includes(spend.assetType)
+  ) {
+    return {
+      code: "ASSET_TYPE_NOT_ALLOWED",
+      message: `This wallet's spending policy does not allow ${spend.assetType} purchases. Allowed: ${limits.allowedAssetTypes.join(", ")}`,
+    };
+  }
+  if (spend.channel && limits.allowedChannels && !limits.allowedChannels.includes(spend.channel)) {
+    return {
+      code: "CHANNEL_NOT_ALLOWED",
+      message: `This wallet's spending policy does not allow the '${spend.channel}' channel. Allowed: ${limits.allowedChannels.join(", ")}`,
+    };
+  }
+  if (limits.maxPerPurchase !== undefined && round(spend.dollars) > limits.maxPerPurchase) {
+    return {
+      code: "PURCHASE_LIMIT_EXCEEDED",
+      message: `$${spend.dollars.toFixed(2)} exceeds this wallet's limit of $${limits.maxPerPurchase.toFixed(2)} per purchase`,
+    };
+  }
+  if (limits.maxPerDay !== undefined && !spend.fromBalance) {
+    const spent =
+      (await store.spentSince(wallet, dayStart(now))) + (held.get(wallet.toLowerCase()) ?? 0);
+    if (round(spent + spend.dollars) > limits.maxPerDay) {
+      const remaining = Math.max(0, limits.maxPerDay - spent);
+      return {
+        code: "DAILY_LIMIT_EXCEEDED",
+        message: `$${spend.dollars.toFixed(2)} exceeds the $${remaining.toFixed(2)} left of this wallet's $${limits.maxPerDay.toFixed(2)} daily limit`,
+        hint: `The limit resets at ${new Date(dayStart(now).getTime() + 86_400_000).toISOString()}; see GET /v1/wallets/${wallet}/budget`,
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Refuse requests the wallet's spending policy does not allow, with a 403.
+ * At the "challenge" stage the wallet is the one declared in
+ * `X-Wallet-Address`, so a buyer is told before signing anything. At the
+ * "payment" stage it is the verified payer — the check that holds even
+ * when the buyer's agent misbehaves — and the charge is held against the
+ * daily cap until the response ends, so parallel payments cannot
+ * overshoot it. An error status means the payment is never settled.
+ * Requests paid from the prepaid balance skip the daily cap, which counted
+ * the top-up that funded them.
+ */
+export function enforcePolicy<R extends Request>(
+  stage: "challenge" | "payment",
+  describe: (req: R) => Promise<Spend | undefined>
+) {
+  return async (req: R, res: Response, next: NextFunction): Promise<void> => {
+    const wallet = stage === "payment" ? req.payment?.payer : req.get("x-wallet-address");
+    if (!wallet) return next();
+    const fromBalance =
+      stage === "payment"
+        ? req.payment?.scheme === "credit"
+        : req.get(CREDIT_AUTHORIZATION_HEADER) !== undefined;
+    try {
+      const described = await describe(req);
+      if (described) {
+        const spend = { ...described, fromBalance };
+        const violation = await checkSpend(wallet, spend);
+        if (violation) {
+          logger.warn({ wallet, stage, spend, code: violation.code }, "Spending policy refused request");
+          res.status(403).json({ error: violation });
+          return;
+        }
+        if (stage === "payment" && !fromBalance) hold(wallet, spend.dollars, res);
+      }
+    } catch (err) {
+      next(err);
+      return;
+    }
+    next();
+  };
+}
+
+/** Count a settled charge towards the payer's daily cap, if it has a policy. */
+export async function recordSpend(wallet: string, dollars: number): Promise<void> {
+  if (!(await store.get(wallet))) return;
+  await store.addSpend({ wallet, dollars, at: new Date().toISOString() });
+}
+
+type PolicyView = SpendingLimits & { issuedAt: string; effectiveAt: string };
+
+/** Response of `GET /v1/wallets/:wallet/budget`. */
+export interface Budget {
+  wallet: string;
+  /** Limits in force; null when the wallet has not registered a policy. */
+  policy: PolicyView | null;
+  /** A loosened policy that applies from its `effectiveAt`. */
+  pendingPolicy?: PolicyView;
+  /** Counted from when the wallet first registered a policy. */
+  spentToday: string | null;
+  /** Left of `maxPerDay`; null when there is no daily cap. */
+  remainingToday: string | null;
+  resetsAt: string;
+}
+
+function viewOf(record: PolicyRecord): PolicyView {
+  return {
+    ...record.limits,
+    issuedAt: new Date(record.issuedAt).toISOString(),
+    effectiveAt: record.effectiveAt,
+  };
+}
+
+/** What `wallet` may still spend today under its policy. */
+export async function getBudget(wallet: string, now = Date.now()): Promise<Budget> {
+  const resetsAt = new Date(dayStart(now).getTime() + 86_400_000).toISOString();
+  const policy = await store.get(wallet);
+  if (!policy) {
+    return { wallet, policy: null, spentToday: null, remainingToday: null, resetsAt };
+  }
+  const record = inForce(policy, now);
+  const pending = policy.pending && policy.pending !== record ? policy.pending : undefined;
+  const spent = await store.spentSince(wallet, dayStart(now));
+  const { maxPerDay } = record.limits;
+  return {
+    wallet,
+    policy: viewOf(record),
+    ...(pending && { pendingPolicy: viewOf(pending) }),
+    spentToday: `$${spent.toFixed(2)}`,
+    remainingToday:
+      maxPerDay === undefined ? null : `$${Math.max(0, maxPerDay - spent).toFixed(2)}`,
+    resetsAt,
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * EIP-712 message a wallet signs to register its spending policy. Kept free
+ * of server imports so the client SDK can build the same message.
+ */
+
+/** Limits a wallet places on its own purchases. Absent fields do not limit. */
+export interface SpendingLimits {
+  /** USD cap on any single purchase, renewal or per-call request. */
+  maxPerPurchase?: number;
+  /** USD cap on the total charged per UTC day. */
+  maxPerDay?: number;
+  allowedAssetTypes?: string[];
+  allowedChannels?: string[];
+}
+
+export const POLICY_DOMAIN = { name: "Pyth Pro x402 Gateway", version: "1" } as const;
+
+export const POLICY_TYPES = {
+  SpendingPolicy: [
+    { name: "wallet", type: "address" },
+    { name: "maxPerPurchase", type: "string" },
+    { name: "maxPerDay", type: "string" },
+    { name: "allowedAssetTypes", type: "string[]" },
+    { name: "allowedChannels", type: "string[]" },
+    { name: "issuedAt", type: "uint256" },
+  ],
+} as const;
+
+/**
+ * Typed data for `limits` signed by `wallet` at `issuedAt` (unix milliseconds).
+ * Dollar caps are signed as fixed two-decimal strings and unset fields as
+ * "" or an empty list.
+ */
+export function policyTypedData(wallet: `0x${string}`, limits: SpendingLimits, issuedAt: number) {
+  return {
+    domain: POLICY_DOMAIN,
+    types: POLICY_TYPES,
+    primaryType: "SpendingPolicy" as const,
+    message: {
+      wallet,
+      maxPerPurchase: limits.maxPerPurchase?.toFixed(2) ?? "",
+      maxPerDay: limits.maxPerDay?.toFixed(2) ?? "",
+      allowedAssetTypes: limits.allowedAssetTypes ?? [],
+      allowedChannels: limits.allowedChannels ?? [],
+      issuedAt: BigInt(issuedAt),
+    },
+  };
+}
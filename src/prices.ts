@@ -0,0 +1,226 @@
+import fs from "node:fs";
+import path from "node:path";
+import { config } from "./config.js";
+import type { TickerInfo } from "./symbols.js";
+
+/** Latest published price of one feed. */
+export interface PriceQuote {
+  /** Mantissa as published: the real price is `price * 10^exponent`. */
+  price: string;
+  exponent: number;
+  confidence: string | null;
+  bestBidPrice: string | null;
+  bestAskPrice: string | null;
+  publishedAt: Date;
+  /** Signed update for on-chain verification, when the source provides one. */
+  signedUpdate: { encoding: string; data: string } | null;
+}
+
+/** One OHLC bar; prices are decimal numbers. */
+export interface Bar {
+  time: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface HistoryRange {
+  fromMs: number;
+  toMs: number;
+  resolutionMs: number;
+}
+
+/** Where single prices and history are fetched from. */
+export interface PriceSource {
+  /** Label used in logs. */
+  name: string;
+  latest(feed: TickerInfo): Promise<PriceQuote>;
+  /** Bars within the range, oldest first; empty when there is no data. */
+  history(feed: TickerInfo, range: HistoryRange): Promise<Bar[]>;
+}
+
+/** "6512345000000" at exponent -8 → "65123.45". */
+export function toDecimal(mantissa: string, exponent: number): string {
+  const negative = mantissa.startsWith("-");
+  const digits = negative ? mantissa.slice(1) : mantissa;
+  let result: string;
+  if (exponent >= 0) {
+    result = digits + "0".repeat(exponent);
+  } else {
+    const padded = digits.padStart(-exponent + 1, "0");
+    const point = padded.length + exponent;
+    result = `${padded.slice(0, point)}.${padded.slice(point)}`.replace(/\.?0+$/, "");
+  }
+  return negative ? `-${result}` : result;
+}
+
+/** TradingView resolution string: minutes, or days as "1D". */
+function tvResolution(resolutionMs: number): string {
+  const minutes = resolutionMs / 60_000;
+  return minutes % 1440 === 0 ? `${minutes / 1440}D` : String(minutes);
+}
+
+/**
+ * Pyth Pro: the REST latest-price endpoint (same properties and signed EVM
+ * update as a stream subscription) and the TradingView-style history API.
+ */
+export function createPythPriceSource(): PriceSource {
+  return {
+    name: "pyth",
+    async latest(feed) {
+      const res = await fetch(config.PYTH_PRO_PRICE_URL, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${config.PYTH_PRO_ACCESS_TOKEN}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          priceFeedIds: [feed.feedId],
+          properties: ["price", "bestBidPrice", "bestAskPrice", "exponent", "confidence"],
+          formats: ["evm"],
+          channel: "real_time",
+          parsed: true,
+          jsonBinaryEncoding: "hex",
+        }),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to fetch price: ${res.status} ${res.statusText}`);
+      }
+      const body = (await res.json()) as {
+        parsed?: {
+          timestampUs: string;
+          priceFeeds: Array<{
+            priceFeedId: number;
+            price?: string;
+            exponent?: number;
+            confidence?: string;
+            bestBidPrice?: string;
+            bestAskPrice?: string;
+          }>;
+        };
+        evm?: { encoding: string; data: string };
+      };
+      const update = body.parsed?.priceFeeds.find((f) => f.priceFeedId === feed.feedId);
+      if (!update?.price) throw new Error(`No price published for feed ${feed.feedId}`);
+      return {
+        price: update.price,
+        exponent: update.exponent ?? feed.exponent ?? 0,
+        confidence: update.confidence ?? null,
+        bestBidPrice: update.bestBidPrice ?? null,
+        bestAskPrice: update.bestAskPrice ?? null,
+        publishedAt: new Date(Number(body.parsed!.timestampUs) / 1000),
+        signedUpdate: body.evm ?? null,
+      };
+    },
+    async history(feed, range) {
+      const url = new URL(config.PYTH_PRO_HISTORY_URL);
+      url.search = new URLSearchParams({
+        symbol: feed.symbol,
+        resolution: tvResolution(range.resolutionMs),
+        from: String(Math.floor(range.fromMs / 1000)),
+        to: String(Math.floor(range.toMs / 1000)),
+      }).toString();
+      const res = await fetch(url, {
+        headers: { Authorization: `Bearer ${config.PYTH_PRO_ACCESS_TOKEN}` },
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to fetch history: ${res.status} ${res.statusText}`);
+      }
+      const body = (await res.json()) as {
+        s: string;
+        errmsg?: string;
+        t?: number[];
+        o?: number[];
+        h?: number[];
+        l?: number[];
+        c?: number[];
+      };
+      if (body.s === "no_data") return [];
+      if (body.s !== "ok") throw new Error(`History API error: ${body.errmsg ?? body.s}`);
+      return (body.t ?? []).map((t, i) => ({
+        time: new Date(t * 1000),
+        open: body.o![i],
+        high: body.h![i],
+        low: body.l![i],
+        close: body.c![i],
+      }));
+    },
+  };
+}
+
+/** Fixture entry: a feed's price mantissa and exponent, keyed by feed ID. */
+export type PriceFixture = Record<string, { price: string; exponent: number; confidence?: string }>;
+
+// The build copies src/fixtures next to the bundle, so this resolves from src and dist alike
+export const DEFAULT_PRICE_FIXTURE = path.resolve(
+  import.meta.dirname,
+  "fixtures",
+  "prices.json"
+);
+
+/**
+ * Fixed prices, or a JSON file of them, for tests and offline runs. History
+ * is synthesised around the fixture price so any range has bars.
+ */
+export function createFixturePriceSource(fixture: PriceFixture | string): PriceSource {
+  let loaded: Promise<PriceFixture> | undefined;
+  const entry = async (feed: TickerInfo) => {
+    loaded ??=
+      typeof fixture === "string"
+        ? fs.promises.readFile(fixture, "utf-8").then((raw) => JSON.parse(raw))
+        : Promise.resolve(fixture);
+    const found = (await loaded)[feed.feedId];
+    if (!found) throw new Error(`No fixture price for feed ${feed.feedId}`);
+    return found;
+  };
+
+  return {
+    name: "fixture",
+    async latest(feed) {
+      const { price, exponent, confidence } = await entry(feed);
+      return {
+        price,
+        exponent,
+        confidence: confidence ?? null,
+        bestBidPrice: null,
+        bestAskPrice: null,
+        publishedAt: new Date(),
+        signedUpdate: null,
+      };
+    },
+    async history(feed, { fromMs, toMs, resolutionMs }) {
+      const { price, exponent } = await entry(feed);
+      const base = Number(toDecimal(price, exponent));
+      // A gentle daily wave so bars differ but stay reproducible
+      const at = (ms: number) => base * (1 + 0.01 * Math.sin((ms / 86_400_000) * 2 * Math.PI));
+      const bars: Bar[] = [];
+      const first = Math.ceil(fromMs / resolutionMs) * resolutionMs;
+      for (let t = first; t < toMs; t += resolutionMs) {
+        const [open, close] = [at(t), at(t + resolutionMs)];
+        bars.push({
+          time: new Date(t),
+          open,
+          high: Math.max(open, close),
+          low: Math.min(open, close),
+          close,
+        });
+      }
+      return bars;
+    },
+  };
+}
+
+let source: PriceSource =
+  config.PRICE_SOURCE === "fixture"
+    ? createFixturePriceSource(DEFAULT_PRICE_FIXTURE)
+    : createPythPriceSource();
+
+/** Swap where `GET /v1/price` and `GET /v1/history` fetch from. */
+export function setPriceSource(next: PriceSource): void {
+  source = next;
+}
+
+export function getPriceSource(): PriceSource {
+  return source;
+}
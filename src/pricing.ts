@@ -2,14 +2,19 @@ import fs from "node:fs";
 import path from "node:path";
 import { z } from "zod";
 import { createLogger } from "./logger.js";
+import { getLedger } from "./ledger.js";
+import { recordPricingReload } from "./metrics.js";
+import { nextOpen, openMsBetween, parseSchedule } from "./markethours.js";
 
 const logger = createLogger("pricing");
 
-const pricingSchema = z.object({
+export const pricingSchema = z.object({
   durations: z
     .array(
       z.object({
-        path: z.string(),
+        path: z
+          .string()
+          .regex(/^\d+[mhd]$/, "Duration path must look like 30m, 4h or 7d"),
         label: z.string(),
         basePriceDollars: z.number().positive(),
       })
@@ -35,6 +40,82 @@ const pricingSchema = z.object({
     .refine((obj) => Object.keys(obj).length > 0, {
       message: "At least one channel is required",
     }),
+  bundle: z
+    .object({
+      maxFeeds: z.number().int().positive(),
+      // Per-feed price multiplier for the Nth feed of a bundle, taken from the
+      // highest tier whose minFeeds <= N. Feeds below every tier pay full price.
+      discounts: z.array(
+        z.object({
+          minFeeds: z.number().int().min(2),
+          perFeedMultiplier: z.number().positive().max(1),
+        })
+      ),
+    })
+    .default({ maxFeeds: 1, discounts: [] }),
+  surge: z
+    .object({
+      // How often demand and volatility signals are re-read
+      refreshSeconds: z.number().positive().default(30),
+      // Demand: active entitlements counted per channel or per asset type.
+      // The highest tier whose minActive <= count applies.
+      demand: z
+        .object({
+          scope: z.enum(["channel", "assetType"]),
+          tiers: z.array(
+            z.object({
+              minActive: z.number().int().nonnegative(),
+              multiplier: z.number().positive(),
+            })
+          ),
+        })
+        .optional(),
+      // Volatility: applied when the source reports a value >= threshold
+      volatility: z
+        .object({
+          threshold: z.number().nonnegative(),
+          multiplier: z.number().positive(),
+        })
+        .optional(),
+      // Cap on the combined surge multiplier
+      maxMultiplier: z.number().positive().optional(),
+    })
+    .default({}),
+  // Calendar-aware pricing for asset types whose feeds only tick in market hours
+  marketHours: z
+    .record(
+      z.string(),
+      z.object({
+        // Pyth schedule format, see markethours.ts
+        schedule: z.string().superRefine((spec, ctx) => {
+          try {
+            parseSchedule(spec);
+          } catch (err) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: (err as Error).message });
+          }
+        }),
+        // trading-hours: charge for the share of the window the market is open
+        // off-hours-discount: closed time in the window costs offHoursMultiplier
+        // next-open: bought while closed, the window starts at the next open
+        mode: z.enum(["trading-hours", "off-hours-discount", "next-open"]),
+        offHoursMultiplier: z.number().min(0).max(1).default(0.5),
+      })
+    )
+    .default({}),
+  // Per-call prices for GET /v1/price and /v1/history, times the asset type
+  // multiplier. Both endpoints are off when this section is absent.
+  snapshots: z
+    .object({
+      price: z.object({ priceDollars: z.number().positive() }),
+      history: z.object({
+        priceDollars: z.number().positive(),
+        resolutions: z
+          .array(z.string().regex(/^\d+[mhd]$/, "Resolution must look like 1m, 1h or 1d"))
+          .min(1),
+        maxBars: z.number().int().positive(),
+      }),
+    })
+    .optional(),
 });
 
 export type PricingConfig = z.infer<typeof pricingSchema>;
@@ -51,10 +132,34 @@ const PRICING_FILE = path.resolve(import.meta.dirname, "..", "pricing.json");
 
 let current: PricingConfig | null = null;
 
+type ReloadListener = (config: PricingConfig) => void | Promise<void>;
+const reloadListeners: ReloadListener[] = [];
+
+/**
+ * Register a callback run after every successful hot-reload of pricing.json.
+ * Returns a function that removes it again.
+ */
+export function onPricingReload(listener: ReloadListener): () => void {
+  reloadListeners.push(listener);
+  return () => {
+    const index = reloadListeners.indexOf(listener);
+    if (index !== -1) reloadListeners.splice(index, 1);
+  };
+}
+
+// Contents of pricing.json as last loaded or written, so our own writes are
+// not picked up again by the file watcher
+let lastRaw = "";
+
+// Outcome of the most recent load of pricing.json
+let lastLoad: { ok: boolean; at: Date; error?: string } | null = null;
+
 function loadConfig(): PricingConfig | null {
   try {
     const raw = fs.readFileSync(PRICING_FILE, "utf-8");
     const parsed = pricingSchema.parse(JSON.parse(raw));
+    lastRaw = raw;
+    lastLoad = { ok: true, at: new Date() };
     logger.info(
       {
         durations: parsed.durations.length,
@@ -66,6 +171,7 @@ function loadConfig(): PricingConfig | null {
     return parsed;
   } catch (err) {
     logger.error({ err }, "Failed to load pricing.json");
+    lastLoad = { ok: false, at: new Date(), error: (err as Error).message };
     return null;
   }
 }
@@ -76,16 +182,31 @@ if (!current) {
   throw new Error("pricing.json is missing or invalid — cannot start server");
 }
 
-// Watch for changes and hot-reload
+async function applyConfig(updated: PricingConfig): Promise<void> {
+  current = updated;
+  await Promise.all(
+    reloadListeners.map((listener) =>
+      Promise.resolve()
+        .then(() => listener(updated))
+        .catch((err) => logger.error({ err }, "Pricing reload listener failed"))
+    )
+  );
+}
+
+// Watch for changes and hot-reload. The directory is watched rather than
+// the file, since a write that replaces the file (ours included) ends a watch
+// on the file it replaced.
 try {
-  fs.watch(PRICING_FILE, (eventType) => {
-    if (eventType === "change") {
-      const updated = loadConfig();
-      if (updated) {
-        current = updated;
-      } else {
-        logger.warn("Invalid pricing.json update ignored — keeping previous config");
-      }
+  fs.watch(path.dirname(PRICING_FILE), (_eventType, filename) => {
+    if (filename !== path.basename(PRICING_FILE) || !fs.existsSync(PRICING_FILE)) return;
+    // Skip our own writes from updatePricing()
+    if (fs.readFileSync(PRICING_FILE, "utf-8") === lastRaw) return;
+    const updated = loadConfig();
+    recordPricingReload(updated ? "success" : "failure");
+    if (updated) {
+      void applyConfig(updated);
+    } else {
+      logger.warn("Invalid pricing.json update ignored — keeping previous config");
     }
   });
 } catch {
@@ -96,6 +217,39 @@ export function getPricing(): PricingConfig {
   return current!;
 }
 
+/** Outcome of the last pricing.json load; a failed reload keeps the previous config. */
+export function getPricingStatus(): { ok: boolean; at: Date; error?: string } {
+  return lastLoad!;
+}
+
+/**
+ * Validate a new pricing config, write it to pricing.json and apply it as a
+ * hot-reload would. Throws a ZodError, leaving the current config in place,
+ * when `next` is invalid.
+ */
+export async function updatePricing(next: unknown): Promise<PricingConfig> {
+  const parsed = pricingSchema.parse(next);
+  const raw = JSON.stringify(next, null, 2) + "\n";
+  // Known before the watcher can see the write, which replaces the file in
+  // one rename so the watcher never reads it half-written
+  const previousRaw = lastRaw;
+  lastRaw = raw;
+  const tmp = `${PRICING_FILE}.${process.pid}.tmp`;
+  try {
+    await fs.promises.writeFile(tmp, raw);
+    await fs.promises.rename(tmp, PRICING_FILE);
+  } catch (err) {
+    lastRaw = previousRaw;
+    await fs.promises.rm(tmp, { force: true });
+    throw err;
+  }
+  lastLoad = { ok: true, at: new Date() };
+  logger.info("Pricing config updated");
+  recordPricingReload("success");
+  await applyConfig(parsed);
+  return parsed;
+}
+
 export function getAssetTypes() {
   return getPricing().assetTypes;
 }
@@ -108,23 +262,240 @@ export function getDurations() {
   return getPricing().durations;
 }
 
+const DURATION_UNIT_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/** Convert a duration path ("1h", "7d", "30m") to milliseconds. */
+export function durationToMs(durationPath: string): number | undefined {
+  const match = /^(\d+)([mhd])$/.exec(durationPath);
+  if (!match) return undefined;
+  return Number(match[1]) * DURATION_UNIT_MS[match[2]];
+}
+
+export function getBundleConfig() {
+  return getPricing().bundle;
+}
+
+/** Sum of per-feed multipliers for a bundle of `feedCount` feeds. */
+function bundleFactor(feedCount: number): number {
+  const tiers = [...getBundleConfig().discounts].sort((a, b) => a.minFeeds - b.minFeeds);
+  let factor = 0;
+  for (let n = 1; n <= feedCount; n++) {
+    const tier = tiers.filter((t) => t.minFeeds <= n).pop();
+    factor += tier?.perFeedMultiplier ?? 1;
+  }
+  return factor;
+}
+
+/**
+ * Pluggable volatility signal, e.g. realized volatility of an asset type's
+ * reference feed. Return undefined when no signal is available.
+ */
+export interface VolatilitySource {
+  getVolatility(assetType: string): Promise<number | undefined>;
+}
+
+/** Fixed per-asset-type values — for tests and manual overrides. */
+export function createStaticVolatilitySource(
+  values: Record<string, number>
+): VolatilitySource {
+  return { getVolatility: async (assetType) => values[assetType] };
+}
+
+interface SurgeSignals {
+  activeByChannel: Record<string, number>;
+  activeByAssetType: Record<string, number>;
+  volatility: Record<string, number>;
+}
+
+type SurgeConfig = PricingConfig["surge"];
+
+/** One stage of the surge pipeline; stage multipliers are multiplied together. */
+type PricingModifier = (
+  target: { assetType: string; channel: string },
+  cfg: SurgeConfig,
+  signals: SurgeSignals
+) => number;
+
+const demandModifier: PricingModifier = ({ assetType, channel }, cfg, signals) => {
+  if (!cfg.demand) return 1;
+  const active =
+    cfg.demand.scope === "channel"
+      ? signals.activeByChannel[channel] ?? 0
+      : signals.activeByAssetType[assetType] ?? 0;
+  const tier = [...cfg.demand.tiers]
+    .sort((a, b) => a.minActive - b.minActive)
+    .filter((t) => t.minActive <= active)
+    .pop();
+  return tier?.multiplier ?? 1;
+};
+
+const volatilityModifier: PricingModifier = ({ assetType }, cfg, signals) => {
+  if (!cfg.volatility) return 1;
+  const value = signals.volatility[assetType];
+  return value !== undefined && value >= cfg.volatility.threshold
+    ? cfg.volatility.multiplier
+    : 1;
+};
+
+const modifiers: PricingModifier[] = [demandModifier, volatilityModifier];
+
+let signals: SurgeSignals = { activeByChannel: {}, activeByAssetType: {}, volatility: {} };
+let volatilitySource: VolatilitySource | undefined;
+let signalsStarted = false;
+
+export function setVolatilitySource(source: VolatilitySource | undefined): void {
+  volatilitySource = source;
+}
+
+/** Combined surge multiplier currently applied to an (assetType, channel) price. */
+export function getSurgeMultiplier(assetType: string, channel: string): number {
+  const cfg = getPricing().surge;
+  let multiplier = 1;
+  for (const modifier of modifiers) {
+    multiplier *= modifier({ assetType, channel }, cfg, signals);
+  }
+  if (cfg.maxMultiplier !== undefined) {
+    multiplier = Math.min(multiplier, cfg.maxMultiplier);
+  }
+  return Math.round(multiplier * 100) / 100;
+}
+
+/** Re-read active entitlements from the ledger and the volatility source. */
+export async function refreshSurgeSignals(): Promise<void> {
+  const active = await getLedger().list({ activeAt: new Date() });
+  const next: SurgeSignals = { activeByChannel: {}, activeByAssetType: {}, volatility: {} };
+  for (const p of active) {
+    next.activeByChannel[p.channel] = (next.activeByChannel[p.channel] ?? 0) + 1;
+    next.activeByAssetType[p.assetType] = (next.activeByAssetType[p.assetType] ?? 0) + 1;
+  }
+  if (volatilitySource) {
+    for (const assetType of Object.keys(getAssetTypes())) {
+      const value = await volatilitySource.getVolatility(assetType);
+      if (value !== undefined) next.volatility[assetType] = value;
+    }
+  }
+  signals = next;
+}
+
+/** Refresh surge signals now and then every `surge.refreshSeconds`. */
+export function startSurgeSignals(): void {
+  if (signalsStarted) return;
+  signalsStarted = true;
+  const tick = () => {
+    refreshSurgeSignals()
+      .catch((err) => logger.error({ err }, "Failed to refresh surge signals"))
+      .finally(() => {
+        setTimeout(tick, getPricing().surge.refreshSeconds * 1000).unref();
+      });
+  };
+  tick();
+}
+
+/** Window a purchase made at a given time receives, and its calendar multiplier. */
+export interface MarketWindow {
+  startsAt: Date;
+  expiresAt: Date;
+  /** Hours of the window the market is open; only for calendar-priced asset types. */
+  tradingHours?: number;
+  multiplier: number;
+}
+
+const HOUR_MS = 3_600_000;
+// The calendar multiplier is computed from the purchase time rounded down to
+// this step, so the quote only changes at step boundaries. A paid retry that
+// crosses one no longer matches the challenge; it is answered with a fresh
+// 402 and the signed payment is not settled.
+const QUOTE_STEP_MS = 5 * 60_000;
+
+/**
+ * Window bought by a purchase of `durationPath` at `from` (epoch ms). Without
+ * a `marketHours` rule it starts then at full price.
+ */
+export function getMarketWindow(
+  assetType: string,
+  durationPath: string,
+  from = Date.now()
+): MarketWindow | undefined {
+  const durationMs = durationToMs(durationPath);
+  if (!durationMs) return undefined;
+  const rule = getPricing().marketHours[assetType];
+  if (!rule) {
+    return { startsAt: new Date(from), expiresAt: new Date(from + durationMs), multiplier: 1 };
+  }
+
+  const schedule = parseSchedule(rule.schedule);
+  const startMs = rule.mode === "next-open" ? nextOpen(schedule, from) ?? from : from;
+  const quotedFrom = Math.floor(startMs / QUOTE_STEP_MS) * QUOTE_STEP_MS;
+  const openMs = openMsBetween(schedule, quotedFrom, quotedFrom + durationMs);
+  const openShare = Math.round((openMs / durationMs) * 100) / 100;
+  const multiplier =
+    rule.mode === "trading-hours"
+      ? openShare
+      : rule.mode === "off-hours-discount"
+        ? openShare + (1 - openShare) * rule.offHoursMultiplier
+        : 1;
+  return {
+    startsAt: new Date(startMs),
+    expiresAt: new Date(startMs + durationMs),
+    tradingHours: Math.round((openMs / HOUR_MS) * 100) / 100,
+    multiplier,
+  };
+}
+
+// x402 cannot settle a zero amount
+const MIN_PRICE_DOLLARS = 0.01;
+
+/**
+ * Price of a purchase made at `from`, or of a renewal extending from it.
+ * Calendar rules are applied to the window starting then.
+ */
 export function computePrice(
   assetType: string,
   channel: string,
-  durationPath: string
+  durationPath: string,
+  feedCount = 1,
+  from = Date.now()
 ): { dollars: number; formatted: string } | undefined {
   const cfg = getPricing();
   const at = cfg.assetTypes[assetType];
   const ch = cfg.channels[channel];
   const dur = cfg.durations.find((d) => d.path === durationPath);
   if (!at || !ch || !dur) return undefined;
+  if (feedCount < 1 || feedCount > cfg.bundle.maxFeeds) return undefined;
 
-  const dollars = dur.basePriceDollars * at.multiplier * ch.multiplier;
+  const dollars =
+    dur.basePriceDollars *
+    at.multiplier *
+    ch.multiplier *
+    bundleFactor(feedCount) *
+    getSurgeMultiplier(assetType, channel) *
+    getMarketWindow(assetType, durationPath, from)!.multiplier;
   // Round to 2 decimal places
-  const rounded = Math.round(dollars * 100) / 100;
+  const rounded = Math.max(MIN_PRICE_DOLLARS, Math.round(dollars * 100) / 100);
   return { dollars: rounded, formatted: `$${rounded.toFixed(2)}` };
 }
 
+export type SnapshotProduct = "price" | "history";
+
+/** Per-call price of a snapshot product for an asset type, if it is sold. */
+export function computeSnapshotPrice(
+  product: SnapshotProduct,
+  assetType: string
+): { dollars: number; formatted: string } | undefined {
+  const cfg = getPricing();
+  const at = cfg.assetTypes[assetType];
+  if (!cfg.snapshots || !at) return undefined;
+  const dollars = Math.max(
+    MIN_PRICE_DOLLARS,
+    Math.round(cfg.snapshots[product].priceDollars * at.multiplier * 100) / 100
+  );
+  return { dollars, formatted: `$${dollars.toFixed(2)}` };
+}
+
 export function getAllRouteConfigs(): RouteConfig[] {
   const cfg = getPricing();
   const routes: RouteConfig[] = [];
@@ -0,0 +1,91 @@
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  setRateLimitStore,
+  type RateLimitOptions,
+} from "./ratelimit.js";
+
+let server: http.Server | undefined;
+
+/** Serve a limited route keyed on the `X-Client` header and return its URL. */
+async function serve(options: Partial<RateLimitOptions> = {}): Promise<string> {
+  const app = express();
+  app.get(
+    "/",
+    createRateLimiter({
+      name: "test",
+      limit: 2,
+      windowMs: 60_000,
+      key: (req) => req.get("x-client"),
+      ...options,
+    }),
+    (_req, res) => {
+      res.json({ ok: true });
+    }
+  );
+  server = http.createServer(app);
+  await new Promise<void>((resolve) => server!.listen(0, resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+}
+
+const as = (client: string) => ({ headers: { "X-Client": client } });
+
+afterEach(async () => {
+  setRateLimitStore(createMemoryRateLimitStore());
+  await new Promise((resolve) => server?.close(resolve));
+});
+
+describe("rate limiter", () => {
+  it("answers 429 with Retry-After once the budget is spent", async () => {
+    const url = await serve();
+    expect((await fetch(url, as("a"))).headers.get("ratelimit-remaining")).toBe("1");
+    expect((await fetch(url, as("a"))).status).toBe(200);
+
+    const res = await fetch(url, as("a"));
+    expect(res.status).toBe(429);
+    expect(Number(res.headers.get("retry-after"))).toBeGreaterThan(0);
+    expect((await res.json()).error.code).toBe("RATE_LIMITED");
+  });
+
+  it("keeps a separate budget per key", async () => {
+    const url = await serve({ limit: 1 });
+    expect((await fetch(url, as("a"))).status).toBe(200);
+    expect((await fetch(url, as("a"))).status).toBe(429);
+    expect((await fetch(url, as("b"))).status).toBe(200);
+  });
+
+  it("counts through a pluggable store", async () => {
+    const keys: string[] = [];
+    setRateLimitStore({
+      async hit(key) {
+        keys.push(key);
+        // Another instance has already used the budget
+        return { count: 5, resetAt: Date.now() + 30_000 };
+      },
+    });
+    const url = await serve();
+    const res = await fetch(url, as("a"));
+    expect(res.status).toBe(429);
+    expect(res.headers.get("retry-after")).toBe("30");
+    expect(keys).toEqual(["test:a"]);
+  });
+
+  it("lets requests through when the store fails", async () => {
+    setRateLimitStore({
+      hit: async () => {
+        throw new Error("connection refused");
+      },
+    });
+    const url = await serve();
+    expect((await fetch(url, as("a"))).status).toBe(200);
+  });
+
+  it("is disabled with a limit of 0", async () => {
+    const url = await serve({ limit: 0 });
+    for (let i = 0; i < 3; i++) expect((await fetch(url, as("a"))).status).toBe(200);
+  });
+});
@@ -0,0 +1,104 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { createLogger } from "./logger.js";
+import { recordRateLimited } from "./metrics.js";
+
+const logger = createLogger("ratelimit");
+
+/** Request count of one key in its current fixed window. */
+export interface RateLimitWindow {
+  count: number;
+  /** Epoch ms at which the window resets. */
+  resetAt: number;
+}
+
+/**
+ * Counter backend. The default keeps counts in process memory; deployments
+ * with several instances plug in a shared store (e.g. Redis INCR + PEXPIRE)
+ * so a client's budget is shared across them.
+ */
+export interface RateLimitStore {
+  /** Count one request for `key` and return its window. */
+  hit(key: string, windowMs: number): Promise<RateLimitWindow>;
+}
+
+/** Fixed-window counters in a Map; expired windows are swept as keys are hit. */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, RateLimitWindow>();
+  let nextSweep = 0;
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      if (now >= nextSweep) {
+        for (const [k, w] of windows) if (w.resetAt <= now) windows.delete(k);
+        nextSweep = now + windowMs;
+      }
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+      window.count++;
+      return { ...window };
+    },
+  };
+}
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+/** Swap the counter backend, e.g. for a store shared between instances. */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+export interface RateLimitOptions {
+  /** Budget name, used in store keys, errors and metrics (e.g. "discovery"). */
+  name: string;
+  /** Requests allowed per window and key; 0 disables the limiter. */
+  limit: number;
+  windowMs: number;
+  /** What to count against, e.g. the client IP or the verified payer. */
+  key: (req: Request) => string | undefined;
+}
+
+/**
+ * Fixed-window rate limiter. Over-budget requests get `429 RATE_LIMITED`
+ * with `Retry-After`; every response carries `RateLimit-*` headers. When the
+ * store fails the request is let through — limiting must not take the
+ * gateway down with it.
+ */
+export function createRateLimiter(options: RateLimitOptions): RequestHandler {
+  const { name, limit, windowMs } = options;
+  if (limit <= 0) return (_req, _res, next) => next();
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = options.key(req);
+    if (!key) return next();
+
+    let window: RateLimitWindow;
+    try {
+      window = await store.hit(`${name}:${key}`, windowMs);
+    } catch (err) {
+      logger.error({ err, budget: name }, "Rate limit store unavailable — not limiting");
+      return next();
+    }
+
+    const resetSeconds = Math.max(1, Math.ceil((window.resetAt - Date.now()) / 1000));
+    res.set({
+      "RateLimit-Limit": String(limit),
+      "RateLimit-Remaining": String(Math.max(0, limit - window.count)),
+      "RateLimit-Reset": String(resetSeconds),
+    });
+    if (window.count <= limit) return next();
+
+    recordRateLimited(name);
+    logger.warn({ budget: name, key, count: window.count, limit }, "Rate limit exceeded");
+    res.set("Retry-After", String(resetSeconds));
+    res.status(429).json({
+      error: {
+        code: "RATE_LIMITED",
+        message: `Too many ${name} requests — retry in ${resetSeconds}s`,
+      },
+    });
+  };
+}
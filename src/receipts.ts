@@ -0,0 +1,160 @@
+import crypto from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+import { decodePaymentResponseHeader } from "@x402/core/http";
+import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+
+const logger = createLogger("receipts");
+
+/** Response header carrying the signed receipt of a settled purchase or renewal. */
+export const RECEIPT_HEADER = "PURCHASE-RECEIPT";
+
+/** What a receipt attests: who paid what, for which access, and when. */
+export interface ReceiptClaims {
+  /** A renewal receipt covers the time it added to an existing purchase. */
+  kind: "purchase" | "renewal";
+  /** Purchase (token) ID, as listed in the ledger. */
+  purchaseId: string;
+  /** Wallet the payment settled from. */
+  wallet: string;
+  feedIds: number[];
+  assetType: string;
+  channel: string;
+  duration: string;
+  /** USD charged, e.g. "$1.90". */
+  price: string;
+  payment: {
+    network: string;
+    /** Token contract address. */
+    asset: string;
+    /** In the asset's smallest unit. */
+    amount: string;
+    /** Settlement transaction hash. */
+    txHash: string | null;
+  };
+  startsAt: string;
+  expiresAt: string;
+  /** When the receipt was signed. */
+  issuedAt: string;
+}
+
+// Without a configured key, receipts are signed with a per-process key and
+// stop verifying against the published key after a restart.
+const privateKey = config.RECEIPT_SIGNING_KEY
+  ? crypto.createPrivateKey(config.RECEIPT_SIGNING_KEY.replace(/\\n/g, "\n"))
+  : crypto.generateKeyPairSync("ed25519").privateKey;
+if (!config.RECEIPT_SIGNING_KEY) {
+  logger.warn("RECEIPT_SIGNING_KEY not set — using an ephemeral receipt signing key");
+}
+if (privateKey.asymmetricKeyType !== "ed25519") {
+  throw new Error("RECEIPT_SIGNING_KEY must be an Ed25519 private key");
+}
+
+const publicKey = crypto.createPublicKey(privateKey);
+const publicJwk = publicKey.export({ format: "jwk" });
+
+/** RFC 7638 thumbprint of the public key, used as the JWS `kid`. */
+const keyId = crypto
+  .createHash("sha256")
+  .update(JSON.stringify({ crv: publicJwk.crv, kty: publicJwk.kty, x: publicJwk.x }))
+  .digest("base64url");
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+/** The gateway's receipt verification key, as served at `/.well-known/jwks.json`. */
+export function getReceiptKeys() {
+  return { keys: [{ ...publicJwk, kid: keyId, alg: "EdDSA", use: "sig" }] };
+}
+
+/** Sign `claims` as a compact JWS (EdDSA over Ed25519). */
+export function signReceipt(claims: ReceiptClaims): string {
+  const signingInput = `${encode({ alg: "EdDSA", kid: keyId, typ: "JWT" })}.${encode(claims)}`;
+  const signature = crypto.sign(null, Buffer.from(signingInput), privateKey);
+  return `${signingInput}.${signature.toString("base64url")}`;
+}
+
+/**
+ * Check a receipt against the gateway key. Returns the claims, or undefined
+ * if the receipt is malformed, signed by another key or altered. Receipts do
+ * not expire: they record a past payment, not a live entitlement.
+ */
+export function verifyReceipt(receipt: string): ReceiptClaims | undefined {
+  const [header, payload, signature, ...rest] = receipt.split(".");
+  if (!header || !payload || !signature || rest.length > 0) return undefined;
+  try {
+    const { alg, kid } = JSON.parse(Buffer.from(header, "base64url").toString("utf-8"));
+    if (alg !== "EdDSA" || kid !== keyId) return undefined;
+    const valid = crypto.verify(
+      null,
+      Buffer.from(`${header}.${payload}`),
+      publicKey,
+      Buffer.from(signature, "base64url")
+    );
+    if (!valid) return undefined;
+    return JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Repeat the receipt header in the JSON body as `receipt`. Mounted ahead of
+ * the x402 middleware, which replays the buffered response through this
+ * `end` after settlement has set the header.
+ */
+export function receiptInBody(req: Request, res: Response, next: NextFunction): void {
+  const end = res.end.bind(res) as (...args: unknown[]) => Response;
+  res.end = ((chunk?: unknown, ...rest: unknown[]) => {
+    const receipt = res.getHeader(RECEIPT_HEADER);
+    if (typeof receipt === "string" && (typeof chunk === "string" || Buffer.isBuffer(chunk))) {
+      try {
+        const body = Buffer.from(JSON.stringify({ ...JSON.parse(chunk.toString()), receipt }));
+        res.setHeader("Content-Length", body.length);
+        // Express computed it for the body without the receipt
+        res.removeHeader("ETag");
+        return end(body, ...rest);
+      } catch (err) {
+        logger.warn({ err }, "Could not add the receipt to the response body");
+      }
+    }
+    return end(chunk, ...rest);
+  }) as Response["end"];
+  next();
+}
+
+/**
+ * Send a signed receipt in the `PURCHASE-RECEIPT` header once the payment
+ * settles. The x402 middleware sets PAYMENT-RESPONSE just before it releases
+ * the buffered response, so the receipt can carry the settlement transaction
+ * and still reach the buyer with the response. A drawdown from the prepaid
+ * balance settles nothing on-chain and is signed at once, without a txHash.
+ */
+export function sendReceiptOnSettlement(
+  req: Request,
+  res: Response,
+  claims: Omit<ReceiptClaims, "issuedAt">
+): void {
+  if (req.payment?.scheme === "credit") {
+    res.setHeader(RECEIPT_HEADER, signReceipt({ ...claims, issuedAt: new Date().toISOString() }));
+    return;
+  }
+  const setHeader = res.setHeader.bind(res);
+  res.setHeader = ((name: string, value: number | string | readonly string[]) => {
+    setHeader(name, value);
+    if (name.toLowerCase() === "payment-response" && typeof value === "string") {
+      try {
+        const settlement = decodePaymentResponseHeader(value);
+        const receipt = signReceipt({
+          ...claims,
+          ...(settlement.payer && { wallet: settlement.payer }),
+          payment: { ...claims.payment, txHash: settlement.transaction || null },
+          issuedAt: new Date().toISOString(),
+        });
+        setHeader(RECEIPT_HEADER, receipt);
+      } catch (err) {
+        logger.warn({ err, purchaseId: claims.purchaseId }, "Could not sign purchase receipt");
+      }
+    }
+    return res;
+  }) as Response["setHeader"];
+}
@@ -0,0 +1,217 @@
+import * as http from "node:http";
+import * as net from "node:net";
+import { once } from "node:events";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { WebSocket, WebSocketServer } from "ws";
+import { config } from "./config.js";
+import { attachRelay, recheckConnections, RELAY_PATH } from "./relay.js";
+import { createMemoryStore, setLedger } from "./ledger.js";
+import { issueAccessToken, type AccessTokenClaims } from "./tokens.js";
+import { getChannels } from "./pricing.js";
+
+const ledger = createMemoryStore();
+let upstream: WebSocketServer;
+/** Messages received by the stub upstream, and the credentials it was sent. */
+const forwarded: unknown[] = [];
+const upstreamAuth: (string | undefined)[] = [];
+let server: http.Server;
+let relay: ReturnType<typeof attachRelay>;
+let relayUrl: string;
+
+beforeAll(async () => {
+  upstream = new WebSocketServer({ port: 0 });
+  await once(upstream, "listening");
+  upstream.on("connection", (ws, req) => {
+    upstreamAuth.push(req.headers.authorization);
+    ws.on("message", (data) => {
+      const msg = JSON.parse(data.toString());
+      forwarded.push(msg);
+      ws.send(JSON.stringify({ type: "subscribed", subscriptionId: msg.subscriptionId }));
+    });
+  });
+  config.PYTH_PRO_WS_URLS = [`ws://127.0.0.1:${(upstream.address() as AddressInfo).port}`];
+  setLedger(ledger);
+
+  server = http.createServer();
+  relay = attachRelay(server);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  relayUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}${RELAY_PATH}`;
+});
+
+afterAll(async () => {
+  relay.close();
+  upstream.close();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  forwarded.length = 0;
+});
+
+const wsChannel = () => getChannels()["200ms"].wsChannel;
+
+/**
+ * A token for feeds 1 and 2 on the 200ms channel, recorded in the ledger
+ * unless `record` is false. `startsAt` is for a window bought ahead.
+ */
+async function purchase(
+  expiresInMs = 3_600_000,
+  { startsAt, record = true }: { startsAt?: Date; record?: boolean } = {}
+): Promise<{ token: string; claims: AccessTokenClaims }> {
+  const issued = issueAccessToken({
+    feedIds: [1, 2],
+    channel: "200ms",
+    wsChannel: wsChannel(),
+    durationMs: 3_600_000,
+    startsAt,
+  });
+  if (!record) return issued;
+  await ledger.insert({
+    id: issued.claims.jti,
+    wallet: "0x0000000000000000000000000000000000000001",
+    tickers: ["BTC-USD", "ETH-USD"],
+    feedIds: [1, 2],
+    assetType: "crypto",
+    channel: "200ms",
+    duration: "1h",
+    pricePaid: 1,
+    txHash: null,
+    startsAt: (startsAt ?? new Date()).toISOString(),
+    expiresAt: new Date((startsAt?.getTime() ?? Date.now()) + expiresInMs).toISOString(),
+  });
+  return issued;
+}
+
+/** Connect to the relay, collecting what it sends and how it closes. */
+async function connect(token: string, url = relayUrl) {
+  const ws = new WebSocket(`${url}?token=${token}`);
+  const closed = new Promise<number>((resolve) => ws.on("close", (code) => resolve(code)));
+  await once(ws, "open");
+  /** Resolve with the next message from the relay. */
+  const next = () =>
+    new Promise<Record<string, unknown>>((resolve) =>
+      ws.once("message", (data) => resolve(JSON.parse(data.toString())))
+    );
+  return { ws, closed, next };
+}
+
+const subscribe = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    type: "subscribe",
+    subscriptionId: 1,
+    priceFeedIds: [1],
+    channel: wsChannel(),
+    properties: ["price"],
+    ...overrides,
+  });
+
+describe("relay", () => {
+  it("forwards purchased subscriptions upstream with the gateway credentials", async () => {
+    const { token } = await purchase();
+    const { ws, next } = await connect(token);
+
+    ws.send(subscribe());
+    expect(await next()).toEqual({ type: "subscribed", subscriptionId: 1 });
+    expect(forwarded).toEqual([JSON.parse(subscribe())]);
+    expect(upstreamAuth.at(-1)).toBe("Bearer test-upstream-token");
+    ws.close();
+  });
+
+  it("rejects feeds and channels that were not purchased", async () => {
+    const { token } = await purchase();
+    const { ws, next } = await connect(token);
+
+    ws.send(subscribe({ subscriptionId: 2, priceFeedIds: [1, 3] }));
+    expect(await next()).toEqual({
+      type: "subscriptionError",
+      subscriptionId: 2,
+      error: "Feed ID(s) not purchased: 3",
+    });
+    ws.send(subscribe({ subscriptionId: 3, channel: "real_time" }));
+    expect(await next()).toEqual({
+      type: "subscriptionError",
+      subscriptionId: 3,
+      error: `Channel 'real_time' not purchased; this token allows '${wsChannel()}'`,
+    });
+
+    // Sent after the rejected ones, so it arriving upstream means they were dropped
+    ws.send(subscribe({ subscriptionId: 4 }));
+    expect(await next()).toMatchObject({ type: "subscribed", subscriptionId: 4 });
+    expect(forwarded).toMatchObject([{ subscriptionId: 4 }]);
+    ws.close();
+  });
+
+  it("rejects frames that are not valid client messages", async () => {
+    const { token } = await purchase();
+    const { ws, next } = await connect(token);
+
+    ws.send("not json");
+    expect(await next()).toEqual({ type: "error", error: "Messages must be JSON" });
+    ws.send(JSON.stringify({ type: "ping" }));
+    expect(await next()).toEqual({
+      type: "error",
+      error: "Unsupported message type; expected subscribe or unsubscribe",
+    });
+    ws.send(subscribe({ symbols: ["Crypto.BTC/USD"] }));
+    expect(await next()).toEqual({
+      type: "error",
+      error: "symbols: Subscribe by priceFeedIds; symbols are not supported through the gateway",
+    });
+    ws.send(subscribe({ priceFeedIds: [] }));
+    expect(await next()).toEqual({
+      type: "error",
+      error: "priceFeedIds: subscribe must list priceFeedIds",
+    });
+    expect(forwarded).toEqual([]);
+    ws.close();
+  });
+
+  it("refuses connections before a window bought ahead starts", async () => {
+    const startsAt = new Date(Date.now() + 86_400_000);
+    for (const record of [true, false]) {
+      const { token, claims } = await purchase(3_600_000, { startsAt, record });
+      expect(claims.nbf).toBe(Math.floor(startsAt.getTime() / 1000));
+      const ws = new WebSocket(`${relayUrl}?token=${token}`);
+      const [req, res] = await once(ws, "unexpected-response");
+      expect(res.statusCode).toBe(403);
+      req.destroy();
+    }
+  });
+
+  it("closes with 4001 when the purchased access expires", async () => {
+    const { token } = await purchase(300);
+    const { closed } = await connect(token);
+    expect(await closed).toBe(4001);
+  });
+
+  it("closes with 4003 when the purchase is revoked", async () => {
+    const { token, claims } = await purchase();
+    const { closed } = await connect(token);
+
+    await ledger.update(claims.jti, {
+      revoked: { reason: "test", revokedAt: new Date().toISOString() },
+    });
+    recheckConnections(claims.jti);
+    expect(await closed).toBe(4003);
+  });
+
+  it("closes with 1008 when messages pile up before upstream connects", async () => {
+    // Accepts the connection but never completes the WebSocket handshake
+    const sockets: net.Socket[] = [];
+    const silent = net.createServer((socket) => sockets.push(socket));
+    await new Promise<void>((resolve) => silent.listen(0, resolve));
+    const urls = config.PYTH_PRO_WS_URLS;
+    config.PYTH_PRO_WS_URLS = [`ws://127.0.0.1:${(silent.address() as AddressInfo).port}`];
+    try {
+      const { token } = await purchase();
+      const { ws, closed } = await connect(token);
+      for (let i = 0; i <= 32; i++) ws.send(subscribe({ subscriptionId: i }));
+      expect(await closed).toBe(1008);
+    } finally {
+      config.PYTH_PRO_WS_URLS = urls;
+      for (const socket of sockets) socket.destroy();
+      silent.close();
+    }
+  });
+});
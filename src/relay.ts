@@ -0,0 +1,353 @@
+import type * as http from "node:http";
+import type { Duplex } from "node:stream";
+import { WebSocket, WebSocketServer, type RawData } from "ws";
+import { z } from "zod";
+import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+import { verifyAccessToken, type AccessTokenClaims } from "./tokens.js";
+import { getLedger } from "./ledger.js";
+import { getChannels } from "./pricing.js";
+
+const logger = createLogger("relay");
+
+export const RELAY_PATH = "/v1/stream";
+
+/** Close code sent when the purchased access window ends. */
+const CLOSE_EXPIRED = 4001;
+/** Close code sent when an operator revokes the purchase. */
+const CLOSE_REVOKED = 4003;
+/** Close code sent when no upstream Pyth Pro router could be reached. */
+const CLOSE_UPSTREAM_UNAVAILABLE = 1011;
+/** Close code sent when a buyer floods the relay before upstream is connected. */
+const CLOSE_POLICY_VIOLATION = 1008;
+
+/** Messages held while the upstream connection opens. */
+const MAX_PENDING_MESSAGES = 32;
+
+/** setTimeout overflows past ~24.8 days, so long expiries are re-checked in steps. */
+const MAX_TIMER_MS = 2_147_483_647;
+
+/** What a connection may stream. */
+interface Entitlement {
+  feedIds: number[];
+  wsChannel: string;
+  /** Later than now for a window bought ahead, e.g. from the next market open. */
+  startsAtMs: number;
+  expiresAtMs: number;
+  revoked: boolean;
+}
+
+/**
+ * Resolve the current entitlement for a token. The ledger entry is
+ * authoritative (renewals and upgrades change it); the token's own claims
+ * cover purchases not yet recorded.
+ */
+async function resolveEntitlement(claims: AccessTokenClaims): Promise<Entitlement> {
+  const record = await getLedger().get(claims.jti);
+  if (!record) {
+    return {
+      feedIds: claims.feedIds,
+      wsChannel: claims.wsChannel,
+      startsAtMs: (claims.nbf ?? claims.iat) * 1000,
+      expiresAtMs: claims.exp * 1000,
+      revoked: false,
+    };
+  }
+  return {
+    feedIds: record.feedIds,
+    wsChannel: getChannels()[record.channel]?.wsChannel ?? claims.wsChannel,
+    startsAtMs: Date.parse(record.startsAt),
+    expiresAtMs: Date.parse(record.expiresAt),
+    revoked: record.revoked !== undefined,
+  };
+}
+
+/** Open connections per token ID, each with a callback re-reading its entitlement. */
+const liveConnections = new Map<string, Set<() => void>>();
+
+/**
+ * Re-read the entitlement of every open connection for a purchase, e.g.
+ * after an operator revoked or extended it. Revoked connections are closed.
+ */
+export function recheckConnections(tokenId: string): void {
+  for (const recheck of liveConnections.get(tokenId) ?? []) recheck();
+}
+
+// Round-robin starting point across PYTH_PRO_WS_URLS
+let nextUpstream = 0;
+
+function rejectUpgrade(socket: Duplex, status: number, message: string) {
+  socket.write(
+    `HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`
+  );
+  socket.destroy();
+}
+
+/** Read the purchase token from the Authorization header or `?token=` query. */
+function extractToken(req: http.IncomingMessage, url: URL): string | undefined {
+  const auth = req.headers.authorization;
+  if (auth?.startsWith("Bearer ")) return auth.slice("Bearer ".length).trim();
+  return url.searchParams.get("token") ?? undefined;
+}
+
+const feedIdsRequired = "subscribe must list priceFeedIds";
+
+/**
+ * Messages a buyer may send. Other Pyth Pro subscribe fields (properties,
+ * formats, ...) are passed through untouched.
+ */
+const clientMessageSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      type: z.literal("subscribe"),
+      subscriptionId: z.number().int(),
+      symbols: z.undefined({
+        invalid_type_error:
+          "Subscribe by priceFeedIds; symbols are not supported through the gateway",
+      }),
+      priceFeedIds: z
+        .array(z.number().int(), {
+          required_error: feedIdsRequired,
+          invalid_type_error: feedIdsRequired,
+        })
+        .min(1, feedIdsRequired),
+      channel: z.string(),
+    })
+    .passthrough(),
+  z.object({ type: z.literal("unsubscribe"), subscriptionId: z.number().int() }).passthrough(),
+]);
+
+type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+/** Parse a client frame, or describe why it cannot be forwarded. */
+function parseClientMessage(data: RawData): { msg: ClientMessage } | { error: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(data.toString());
+  } catch {
+    return { error: "Messages must be JSON" };
+  }
+  const parsed = clientMessageSchema.safeParse(json);
+  if (parsed.success) return { msg: parsed.data };
+  const [issue] = parsed.error.errors;
+  if (issue.code === "invalid_union_discriminator") {
+    return { error: `Unsupported message type; expected ${issue.options.join(" or ")}` };
+  }
+  return { error: `${issue.path.join(".")}: ${issue.message}` };
+}
+
+/**
+ * Check a client message against what was purchased.
+ * Returns an error string if the message must not be forwarded upstream.
+ */
+function checkClientMessage(msg: ClientMessage, entitlement: Entitlement): string | undefined {
+  if (msg.type === "unsubscribe") return undefined;
+  if (entitlement.startsAtMs > Date.now()) {
+    return `Purchased access starts at ${new Date(entitlement.startsAtMs).toISOString()}`;
+  }
+  const notPurchased = msg.priceFeedIds.filter((id) => !entitlement.feedIds.includes(id));
+  if (notPurchased.length > 0) {
+    return `Feed ID(s) not purchased: ${notPurchased.join(", ")}`;
+  }
+  if (msg.channel !== entitlement.wsChannel) {
+    return `Channel '${msg.channel}' not purchased; this token allows '${entitlement.wsChannel}'`;
+  }
+  return undefined;
+}
+
+/**
+ * Bridge one buyer connection to a dedicated upstream Pyth Pro connection.
+ * Messages from the buyer are filtered by `checkClientMessage`; everything
+ * from upstream is forwarded as-is.
+ */
+function relayConnection(
+  client: WebSocket,
+  claims: AccessTokenClaims,
+  entitlement: Entitlement
+) {
+  const urls = config.PYTH_PRO_WS_URLS;
+  const firstUpstream = nextUpstream;
+  nextUpstream = (nextUpstream + 1) % urls.length;
+  const log = logger.child({ tokenId: claims.jti });
+  const pending: RawData[] = [];
+  let upstream: WebSocket | undefined;
+  let expiryTimer: NodeJS.Timeout | undefined;
+  let closed = false;
+
+  function closeBoth(code: number, reason: string) {
+    if (closed) return;
+    closed = true;
+    clearTimeout(expiryTimer);
+    const forToken = liveConnections.get(claims.jti);
+    forToken?.delete(recheck);
+    if (forToken?.size === 0) liveConnections.delete(claims.jti);
+    if (client.readyState === WebSocket.OPEN || client.readyState === WebSocket.CONNECTING) {
+      client.close(code, reason);
+    }
+    upstream?.terminate();
+  }
+
+  function scheduleExpiry({ expiresAtMs, revoked }: Entitlement) {
+    clearTimeout(expiryTimer);
+    if (revoked) {
+      log.info("Purchase revoked — closing stream");
+      closeBoth(CLOSE_REVOKED, "Purchase revoked");
+      return;
+    }
+    const msUntilExpiry = expiresAtMs - Date.now();
+    if (msUntilExpiry <= 0) {
+      log.info("Purchased access expired — closing stream");
+      closeBoth(CLOSE_EXPIRED, "Purchased access expired");
+      return;
+    }
+    // Re-check the ledger when the timer fires in case the entitlement was renewed
+    expiryTimer = setTimeout(recheck, Math.min(msUntilExpiry, MAX_TIMER_MS));
+  }
+
+  function recheck() {
+    resolveEntitlement(claims)
+      .then((next) => !closed && scheduleExpiry(next))
+      .catch((err) => log.error({ err }, "Ledger lookup failed"));
+  }
+
+  function connectUpstream(attempt: number) {
+    if (attempt >= urls.length) {
+      log.error("All upstream Pyth Pro routers unreachable");
+      closeBoth(CLOSE_UPSTREAM_UNAVAILABLE, "Upstream unavailable");
+      return;
+    }
+    const url = urls[(firstUpstream + attempt) % urls.length];
+    // Assigned while still connecting, so closing the relay also aborts the handshake
+    const ws = new WebSocket(url, {
+      headers: { Authorization: `Bearer ${config.PYTH_PRO_ACCESS_TOKEN}` },
+    });
+    upstream = ws;
+    let opened = false;
+
+    ws.on("open", () => {
+      opened = true;
+      if (closed) {
+        ws.terminate();
+        return;
+      }
+      log.info({ url }, "Upstream connected");
+      for (const data of pending.splice(0)) ws.send(data);
+    });
+    ws.on("message", (data, isBinary) => {
+      if (client.readyState === WebSocket.OPEN) client.send(data, { binary: isBinary });
+    });
+    ws.on("error", (err) => {
+      log.warn({ err, url }, "Upstream error");
+      // Fail over to the next router if we never got connected
+      if (!opened && !closed) connectUpstream(attempt + 1);
+    });
+    ws.on("close", () => {
+      if (opened) closeBoth(CLOSE_UPSTREAM_UNAVAILABLE, "Upstream closed");
+    });
+  }
+
+  async function handleMessage(data: RawData) {
+    const parsed = parseClientMessage(data);
+    if ("error" in parsed) {
+      log.warn({ error: parsed.error }, "Client message rejected");
+      client.send(JSON.stringify({ type: "error", error: parsed.error }));
+      return;
+    }
+    const { msg } = parsed;
+
+    // Re-resolve on every message so channel upgrades apply without reconnecting
+    const error = checkClientMessage(msg, await resolveEntitlement(claims));
+    if (error) {
+      log.warn({ type: msg.type, error }, "Client message rejected");
+      client.send(
+        JSON.stringify({
+          type: "subscriptionError",
+          subscriptionId: msg.subscriptionId,
+          error,
+        })
+      );
+      return;
+    }
+
+    if (upstream?.readyState === WebSocket.OPEN) {
+      upstream.send(data);
+    } else if (pending.length < MAX_PENDING_MESSAGES) {
+      pending.push(data);
+    } else {
+      log.warn({ pending: pending.length }, "Too many messages before upstream connected");
+      closeBoth(CLOSE_POLICY_VIOLATION, "Too many messages before upstream connected");
+    }
+  }
+
+  // Handle messages strictly in arrival order
+  let inbox: Promise<void> = Promise.resolve();
+  client.on("message", (data) => {
+    inbox = inbox
+      .then(() => handleMessage(data))
+      .catch((err) => log.error({ err }, "Failed to handle client message"));
+  });
+  client.on("close", () => closeBoth(1000, "Client closed"));
+  client.on("error", (err) => log.warn({ err }, "Client error"));
+
+  if (!liveConnections.has(claims.jti)) liveConnections.set(claims.jti, new Set());
+  liveConnections.get(claims.jti)!.add(recheck);
+  scheduleExpiry(entitlement);
+  connectUpstream(0);
+}
+
+/**
+ * Attach the WebSocket relay to the HTTP server. Buyers connect to
+ * `RELAY_PATH` with their purchase token; the upstream Pyth Pro
+ * credentials never leave the gateway.
+ */
+export function attachRelay(server: http.Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== RELAY_PATH) {
+      rejectUpgrade(socket, 404, "Not Found");
+      return;
+    }
+
+    const token = extractToken(req, url);
+    // Expiry is checked against the ledger below — renewals outlive the token's exp
+    const claims = token ? verifyAccessToken(token, { ignoreExpiry: true }) : undefined;
+    if (!claims) {
+      rejectUpgrade(socket, 401, "Unauthorized");
+      return;
+    }
+
+    resolveEntitlement(claims)
+      .then((entitlement) => {
+        if (entitlement.revoked || entitlement.expiresAtMs <= Date.now()) {
+          rejectUpgrade(socket, 401, "Unauthorized");
+          return;
+        }
+        // A window bought ahead, e.g. from the next market open, has not begun
+        if (entitlement.startsAtMs > Date.now()) {
+          rejectUpgrade(socket, 403, "Forbidden");
+          return;
+        }
+        wss.handleUpgrade(req, socket, head, (client) => {
+          logger.info(
+            { tokenId: claims.jti, feedIds: claims.feedIds, channel: claims.channel },
+            "Client connected"
+          );
+          relayConnection(client, claims, entitlement);
+        });
+      })
+      .catch((err) => {
+        logger.error({ err, tokenId: claims.jti }, "Ledger lookup failed");
+        rejectUpgrade(socket, 503, "Service Unavailable");
+      });
+  });
+
+  return {
+    /** Close all buyer connections (and their upstreams). */
+    close() {
+      for (const client of wss.clients) client.close(1001, "Gateway shutting down");
+      wss.close();
+    },
+  };
+}
@@ -0,0 +1,384 @@
+import crypto from "node:crypto";
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { z } from "zod";
+import { config } from "../config.js";
+import { createLogger } from "../logger.js";
+import { getLedger, type PurchaseRecord, type RefundRecord } from "../ledger.js";
+import { getCredits } from "../credits.js";
+import { getBlocklist } from "../blocklist.js";
+import {
+  durationToMs,
+  getAllRouteConfigs,
+  getPricing,
+  pricingSchema,
+  updatePricing,
+} from "../pricing.js";
+import { getAllTickers, refreshSymbols } from "../symbols.js";
+import { recheckConnections } from "../relay.js";
+
+const logger = createLogger("admin");
+
+export const adminRouter = Router();
+
+/** Bearer-token check against ADMIN_API_KEY; the whole router is off without it. */
+function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!config.ADMIN_API_KEY) {
+    res.status(503).json({
+      error: { code: "ADMIN_DISABLED", message: "Set ADMIN_API_KEY to enable the admin API" },
+    });
+    return;
+  }
+  const presented = Buffer.from(req.get("authorization")?.replace(/^Bearer\s+/i, "") ?? "");
+  const expected = Buffer.from(config.ADMIN_API_KEY);
+  if (presented.length !== expected.length || !crypto.timingSafeEqual(presented, expected)) {
+    res.status(401).json({
+      error: { code: "UNAUTHORIZED", message: "Missing or invalid admin credentials" },
+    });
+    return;
+  }
+  next();
+}
+
+adminRouter.use(requireAdmin);
+
+/** Express 4 ignores rejected promises; route them to the error handler. */
+function handle(fn: (req: Request<Record<string, string>>, res: Response) => Promise<void>) {
+  return (req: Request<Record<string, string>>, res: Response, next: NextFunction) => {
+    fn(req, res).catch(next);
+  };
+}
+
+/** Parse `value` or answer 400 VALIDATION_ERROR and return undefined. */
+function parse<T extends z.ZodTypeAny>(
+  schema: T,
+  value: unknown,
+  res: Response
+): z.infer<T> | undefined {
+  const parsed = schema.safeParse(value);
+  if (parsed.success) return parsed.data;
+  res.status(400).json({
+    error: {
+      code: "VALIDATION_ERROR",
+      message: parsed.error.errors
+        .map((e) => `${e.path.join(".")}: ${e.message}`)
+        .join(", "),
+    },
+  });
+  return undefined;
+}
+
+/** The purchase named by `:id`, or a 404 answer and undefined. */
+async function findPurchase(
+  req: Request<Record<string, string>>,
+  res: Response
+): Promise<PurchaseRecord | undefined> {
+  const purchase = await getLedger().get(req.params.id);
+  if (!purchase) {
+    res.status(404).json({
+      error: { code: "PURCHASE_NOT_FOUND", message: `No purchase with ID '${req.params.id}'` },
+    });
+  }
+  return purchase;
+}
+
+const walletSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Must be an EVM address");
+
+const cents = (dollars: number) => Math.round(dollars * 100) / 100;
+
+// --- Pricing ---
+
+adminRouter.get("/pricing", (_req, res) => {
+  res.json(getPricing());
+});
+
+/** Replace pricing.json. Purchase routes are rebuilt before the response is sent. */
+adminRouter.put(
+  "/pricing",
+  handle(async (req, res) => {
+    if (!parse(pricingSchema, req.body, res)) return;
+    const pricing = await updatePricing(req.body);
+    logger.info({ routes: getAllRouteConfigs().length }, "Pricing updated via admin API");
+    res.json(pricing);
+  })
+);
+
+// --- Purchases ---
+
+const purchasesQuery = z.object({
+  wallet: z.string().optional(),
+  ticker: z.string().optional(),
+  feedId: z.coerce.number().int().nonnegative().optional(),
+  status: z.enum(["active", "all"]).default("active"),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().nonnegative().default(0),
+});
+
+/** Purchases by wallet, ticker or feed ID, newest first. */
+adminRouter.get(
+  "/purchases",
+  handle(async (req, res) => {
+    const query = parse(purchasesQuery, req.query, res);
+    if (!query) return;
+    const { status, offset, limit, ...filter } = query;
+    const purchases = await getLedger().list({
+      ...filter,
+      ...(status === "active" && { activeAt: new Date() }),
+    });
+    purchases.sort((a, b) => Date.parse(b.startsAt) - Date.parse(a.startsAt));
+    res.json({
+      total: purchases.length,
+      offset,
+      limit,
+      results: purchases.slice(offset, offset + limit),
+    });
+  })
+);
+
+const revokeBody = z.object({ reason: z.string().min(1).max(500) });
+
+/** End an entitlement now. Open streams for it are closed. */
+adminRouter.post(
+  "/purchases/:id/revoke",
+  handle(async (req, res) => {
+    const body = parse(revokeBody, req.body, res);
+    if (!body) return;
+    const purchase = await findPurchase(req, res);
+    if (!purchase) return;
+    if (purchase.revoked) {
+      res.status(409).json({
+        error: { code: "PURCHASE_REVOKED", message: `Purchase '${purchase.id}' is already revoked` },
+      });
+      return;
+    }
+
+    const updated = await getLedger().update(purchase.id, {
+      revoked: { reason: body.reason, revokedAt: new Date().toISOString() },
+    });
+    recheckConnections(purchase.id);
+    logger.info(
+      { purchaseId: purchase.id, wallet: purchase.wallet, reason: body.reason },
+      "Purchase revoked"
+    );
+    res.json(updated);
+  })
+);
+
+const extendBody = z.object({
+  duration: z.string().regex(/^\d+[mhd]$/, "Duration must look like 30m, 4h or 7d"),
+  reason: z.string().min(1).max(500),
+});
+
+/** Grant extra time at no charge, added to the current expiry (or to now, if expired). */
+adminRouter.post(
+  "/purchases/:id/extend",
+  handle(async (req, res) => {
+    const body = parse(extendBody, req.body, res);
+    if (!body) return;
+    const purchase = await findPurchase(req, res);
+    if (!purchase) return;
+    if (purchase.revoked) {
+      res.status(409).json({
+        error: { code: "PURCHASE_REVOKED", message: `Purchase '${purchase.id}' was revoked` },
+      });
+      return;
+    }
+
+    const from = Math.max(Date.parse(purchase.expiresAt), Date.now());
+    const expiresAt = new Date(from + durationToMs(body.duration)!).toISOString();
+    const updated = await getLedger().update(purchase.id, { expiresAt });
+    recheckConnections(purchase.id);
+    logger.info(
+      {
+        purchaseId: purchase.id,
+        wallet: purchase.wallet,
+        duration: body.duration,
+        reason: body.reason,
+        expiresAt,
+      },
+      "Purchase extended"
+    );
+    res.json(updated);
+  })
+);
+
+const refundBody = z.object({
+  reason: z.string().min(1).max(500),
+  /** USD, rounded to cents; defaults to what is left of the on-chain price paid. */
+  amount: z.number().min(0.01).transform(cents).optional(),
+  /** Refund transfer hash, once sent. Omit to mark the refund as pending. */
+  txHash: z.string().startsWith("0x").optional(),
+});
+
+/**
+ * Mark a purchase for an on-chain refund, or record that the refund has been
+ * sent. The gateway holds no keys, so the transfer itself is made by an
+ * operator from the payTo wallet.
+ */
+adminRouter.post(
+  "/purchases/:id/refund",
+  handle(async (req, res) => {
+    const body = parse(refundBody, req.body, res);
+    if (!body) return;
+    const purchase = await findPurchase(req, res);
+    if (!purchase) return;
+
+    // A pending refund is updated in place; a sent one starts a new refund
+    // for what is left of the purchase and its renewals. A purchase drawn
+    // from the prepaid balance paid nothing on-chain; its renewals did.
+    const pending = purchase.refund?.status === "pending" ? purchase.refund : undefined;
+    const sent = [...(purchase.refunds ?? [])];
+    if (purchase.refund && !pending) sent.push(purchase.refund);
+    const fromBalance = purchase.payment?.network === "credit";
+    const renewals = purchase.renewals ?? [];
+    const paid = cents(
+      renewals.reduce((sum, r) => sum + r.pricePaid, fromBalance ? 0 : purchase.pricePaid)
+    );
+    if (paid === 0) {
+      res.status(409).json({
+        error: {
+          code: "NOT_PAID_ON_CHAIN",
+          message: `Purchase '${purchase.id}' was paid from the prepaid balance, not on-chain`,
+          hint: "Only on-chain payments can be refunded",
+        },
+      });
+      return;
+    }
+    const left = cents(sent.reduce((sum, refund) => sum - refund.amount, paid));
+    if (left <= 0) {
+      res.status(409).json({
+        error: { code: "ALREADY_REFUNDED", message: `Purchase '${purchase.id}' was already refunded` },
+      });
+      return;
+    }
+
+    const { reason, txHash } = body;
+    const amount = body.amount ?? pending?.amount ?? left;
+    if (amount > left) {
+      res.status(400).json({
+        error: {
+          code: "REFUND_EXCEEDS_PAYMENT",
+          message:
+            `Refund of $${amount.toFixed(2)} exceeds the $${left.toFixed(2)} ` +
+            `left of the $${paid.toFixed(2)} paid`,
+        },
+      });
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const refund: RefundRecord = {
+      status: txHash ? "refunded" : "pending",
+      amount,
+      reason,
+      requestedAt: pending?.requestedAt ?? now,
+      txHash: txHash ?? null,
+      refundedAt: txHash ? now : null,
+    };
+    const updated = await getLedger().update(purchase.id, {
+      refund,
+      ...(sent.length > 0 && { refunds: sent }),
+    });
+
+    logger.info(
+      { purchaseId: purchase.id, wallet: purchase.wallet, ...refund },
+      "Purchase refund updated"
+    );
+    res.json(updated);
+  })
+);
+
+// --- Wallets ---
+
+/** Store-credit balance and history of a wallet. */
+adminRouter.get(
+  "/credits/:wallet",
+  handle(async (req, res) => {
+    const wallet = parse(walletSchema, req.params.wallet, res);
+    if (!wallet) return;
+    const credits = getCredits();
+    res.json({
+      wallet,
+      balance: await credits.balance(wallet),
+      entries: await credits.list(wallet),
+    });
+  })
+);
+
+adminRouter.get(
+  "/wallets/blocked",
+  handle(async (_req, res) => {
+    res.json({ results: await getBlocklist().list() });
+  })
+);
+
+const blockBody = z.object({
+  reason: z.string().min(1).max(500),
+  /** Also revoke the wallet's active purchases. */
+  revokeActive: z.boolean().default(false),
+});
+
+/** Refuse further payments from a wallet, optionally revoking what it already bought. */
+adminRouter.post(
+  "/wallets/:wallet/block",
+  handle(async (req, res) => {
+    const wallet = parse(walletSchema, req.params.wallet, res);
+    if (!wallet) return;
+    const body = parse(blockBody, req.body, res);
+    if (!body) return;
+
+    const entry = { wallet, reason: body.reason, blockedAt: new Date().toISOString() };
+    await getBlocklist().block(entry);
+
+    const revoked: string[] = [];
+    if (body.revokeActive) {
+      for (const purchase of await getLedger().list({ wallet, activeAt: new Date() })) {
+        await getLedger().update(purchase.id, {
+          revoked: { reason: body.reason, revokedAt: entry.blockedAt },
+        });
+        recheckConnections(purchase.id);
+        revoked.push(purchase.id);
+      }
+    }
+    logger.info({ wallet, reason: body.reason, revoked }, "Wallet blocked");
+    res.json({ ...entry, revoked });
+  })
+);
+
+adminRouter.delete(
+  "/wallets/:wallet/block",
+  handle(async (req, res) => {
+    const wallet = parse(walletSchema, req.params.wallet, res);
+    if (!wallet) return;
+    if (!(await getBlocklist().unblock(wallet))) {
+      res.status(404).json({
+        error: { code: "WALLET_NOT_BLOCKED", message: `Wallet '${wallet}' is not blocked` },
+      });
+      return;
+    }
+    logger.info({ wallet }, "Wallet unblocked");
+    res.status(204).end();
+  })
+);
+
+// --- Symbols ---
+
+/** Re-fetch the symbol registry now instead of waiting for the next refresh. */
+adminRouter.post(
+  "/symbols/refresh",
+  handle(async (_req, res) => {
+    try {
+      await refreshSymbols();
+    } catch (err) {
+      logger.error({ err }, "Symbol refresh via admin API failed");
+      res.status(502).json({
+        error: {
+          code: "SYMBOLS_REFRESH_FAILED",
+          message: "Could not load symbols — keeping current registry",
+        },
+      });
+      return;
+    }
+    const feeds = Object.values(getAllTickers()).reduce((n, t) => n + Object.keys(t).length, 0);
+    res.json({ refreshedAt: new Date().toISOString(), feeds });
+  })
+);
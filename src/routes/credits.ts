@@ -0,0 +1,114 @@
+import type { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { createLogger } from "../logger.js";
+import { getCredits, issueCredit } from "../credits.js";
+import { getPayment, onSettled } from "../payment.js";
+import type { Spend } from "../policies.js";
+import { paymentDetails, type PaymentReceipt } from "./purchase.js";
+
+const logger = createLogger("credits");
+
+/** Bounds of a single top-up, USD. */
+const MIN_TOPUP = 1;
+const MAX_TOPUP = 1000;
+
+export const topupBody = z.object({
+  // USD to add to the wallet's balance, rounded to cents
+  amount: z.number().min(MIN_TOPUP).max(MAX_TOPUP),
+});
+
+const walletSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Must be a 0x-prefixed EVM address");
+
+const cents = (dollars: number) => Math.round(dollars * 100) / 100;
+
+/** Response of a paid `POST /v1/credits/topup`. */
+export interface TopupResponse {
+  wallet: string;
+  amount: string;
+  /** Balance once the top-up has settled. */
+  balance: string;
+  payment: PaymentReceipt;
+}
+
+/** Response of `GET /v1/credits/:wallet`. */
+export interface CreditBalance {
+  wallet: string;
+  balance: string;
+}
+
+/** Reject top-ups outside the allowed range before the x402 challenge. */
+export function validateTopup(req: Request, res: Response, next: NextFunction): void {
+  const parsed = topupBody.safeParse(req.body);
+  if (!parsed.success) {
+    const errors = parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`);
+    res.status(400).json({
+      error: {
+        code: "VALIDATION_ERROR",
+        message: errors.join(", "),
+        hint: `Top up between $${MIN_TOPUP} and $${MAX_TOPUP}`,
+      },
+    });
+    return;
+  }
+  next();
+}
+
+/** Price of a top-up request body, for the x402 route config. */
+export function topupPrice(body: unknown): string {
+  const parsed = topupBody.safeParse(body);
+  return `$${cents(parsed.success ? parsed.data.amount : MIN_TOPUP).toFixed(2)}`;
+}
+
+/**
+ * A top-up for the spending policy check. The money leaves the wallet here,
+ * so top-ups count towards its caps and the drawdowns they fund do not.
+ */
+export async function topupSpend(req: Request): Promise<Spend | undefined> {
+  const parsed = topupBody.safeParse(req.body);
+  return parsed.success ? { dollars: cents(parsed.data.amount) } : undefined;
+}
+
+/**
+ * Add the paid amount to the payer's balance once it settles. Purchases
+ * can then be paid from it with a signed `CREDIT-AUTHORIZATION` instead of
+ * an on-chain payment each time.
+ */
+export async function topupHandler(req: Request, res: Response): Promise<void> {
+  const amount = cents(topupBody.parse(req.body).amount);
+  const payment = getPayment(req);
+  const balance = await getCredits().balance(payment.payer);
+
+  onSettled(req, res, amount, async (settled) => {
+    await issueCredit(settled.payer, amount, "topup", { txHash: settled.txHash });
+  });
+
+  logger.info({ wallet: payment.payer, amount, network: payment.network }, "Top-up paid");
+
+  res.json({
+    wallet: payment.payer,
+    amount: `$${amount.toFixed(2)}`,
+    balance: `$${cents(balance + amount).toFixed(2)}`,
+    payment: { payer: payment.payer, ...paymentDetails(payment) },
+  } satisfies TopupResponse);
+}
+
+/** Prepaid balance and store credit of a wallet. */
+export async function creditBalanceHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const wallet = walletSchema.safeParse(req.params.wallet);
+  if (!wallet.success) {
+    res.status(400).json({
+      error: { code: "VALIDATION_ERROR", message: `wallet: ${wallet.error.errors[0].message}` },
+    });
+    return;
+  }
+  try {
+    const balance = await getCredits().balance(wallet.data);
+    res.json({ wallet: wallet.data, balance: `$${balance.toFixed(2)}` } satisfies CreditBalance);
+  } catch (err) {
+    next(err);
+  }
+}
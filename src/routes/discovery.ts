@@ -0,0 +1,30 @@
+import { Router } from "express";
+import { buildOpenApiDocument, buildX402Manifest } from "../openapi.js";
+import { getReceiptKeys } from "../receipts.js";
+
+/**
+ * Machine-readable discovery: the OpenAPI document, the x402 resource
+ * manifest and the public key purchase receipts are signed with.
+ */
+export const discoveryRouter = Router();
+
+// Rebuilt per request: prices follow pricing.json reloads and surge signals
+discoveryRouter.get("/openapi.json", async (_req, res, next) => {
+  try {
+    res.json(await buildOpenApiDocument());
+  } catch (err) {
+    next(err);
+  }
+});
+
+discoveryRouter.get("/.well-known/x402", async (_req, res, next) => {
+  try {
+    res.json(await buildX402Manifest());
+  } catch (err) {
+    next(err);
+  }
+});
+
+discoveryRouter.get("/.well-known/jwks.json", (_req, res) => {
+  res.json(getReceiptKeys());
+});
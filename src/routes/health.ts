@@ -1,11 +1,41 @@
 import { Router } from "express";
+import type { FacilitatorClient } from "@x402/core/server";
+import { createReadinessChecks } from "../health.js";
 
-export const healthRouter = Router();
+const version = process.env.npm_package_version ?? "0.1.0";
 
-healthRouter.get("/", (_req, res) => {
-  res.json({
-    status: "ok",
-    timestamp: new Date().toISOString(),
-    version: process.env.npm_package_version ?? "0.1.0",
+export function createHealthRouter(facilitator: FacilitatorClient): Router {
+  const healthRouter = Router();
+  const readiness = createReadinessChecks(facilitator);
+
+  healthRouter.get("/", (_req, res) => {
+    res.json({
+      status: "ok",
+      timestamp: new Date().toISOString(),
+      version,
+    });
+  });
+
+  // The process is up and serving HTTP; dependencies are not consulted
+  healthRouter.get("/live", (_req, res) => {
+    res.json({
+      status: "ok",
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: Math.round(process.uptime()),
+      version,
+    });
   });
-});
+
+  // 503 when any dependency check fails, so traffic is routed elsewhere
+  healthRouter.get("/ready", async (_req, res) => {
+    const { status, checks } = await readiness();
+    res.status(status === "fail" ? 503 : 200).json({
+      status,
+      timestamp: new Date().toISOString(),
+      version,
+      checks,
+    });
+  });
+
+  return healthRouter;
+}
@@ -0,0 +1,259 @@
+import type { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { createLogger } from "../logger.js";
+import {
+  computeSnapshotPrice,
+  durationToMs,
+  getAssetTypes,
+  getPricing,
+  type SnapshotProduct,
+} from "../pricing.js";
+import { getTickerInfo, resolveFeed, type TickerInfo } from "../symbols.js";
+import { getPriceSource, toDecimal, type HistoryRange } from "../prices.js";
+import { getPayment, onSettled } from "../payment.js";
+import { paymentDetails } from "./purchase.js";
+import { recordRevenue } from "../metrics.js";
+import type { Spend } from "../policies.js";
+
+const logger = createLogger("price");
+
+type ErrorResult = { status: number; error: { code: string; message: string; hint?: string } };
+
+/**
+ * Resolve a path ticker against every asset type: a feed ID, canonical ID,
+ * full symbol or unambiguous short ticker.
+ */
+function findFeed(ref: string): { feed: TickerInfo } | ErrorResult {
+  const key = /^\d+$/.test(ref) ? Number(ref) : ref;
+  const assetTypes = Object.keys(getAssetTypes());
+  for (const assetType of assetTypes) {
+    const feed = getTickerInfo(assetType, key);
+    if (feed) return { feed };
+  }
+  for (const assetType of assetTypes) {
+    const result = resolveFeed(assetType, key);
+    if ("candidates" in result) {
+      return {
+        status: 400,
+        error: {
+          code: "AMBIGUOUS_TICKER",
+          message: `'${ref}' matches several feeds: ${result.candidates.join(", ")}`,
+          hint: `Use one of the canonical IDs instead: ${result.candidates.join(", ")}`,
+        },
+      };
+    }
+  }
+  return {
+    status: 400,
+    error: {
+      code: "INVALID_TICKER",
+      message: `Ticker '${ref}' not found`,
+      hint: "Search feeds with GET /v1/symbols?q=...",
+    },
+  };
+}
+
+// ISO 8601 or unix seconds
+const timestamp = z.string().transform((value, ctx) => {
+  const ms = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value);
+  if (Number.isNaN(ms)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be ISO 8601 or unix seconds" });
+    return z.NEVER;
+  }
+  return ms;
+});
+
+export const historyQuery = z.object({
+  from: timestamp,
+  to: timestamp.optional(),
+  resolution: z.string().optional(),
+});
+
+/** Validate a history query against the `snapshots.history` config. */
+function checkHistory(query: unknown): { range: HistoryRange; resolution: string } | ErrorResult {
+  const parsed = historyQuery.safeParse(query);
+  if (!parsed.success) {
+    return {
+      status: 400,
+      error: {
+        code: "VALIDATION_ERROR",
+        message: parsed.error.errors
+          .map((e) => `${e.path.join(".")}: ${e.message}`)
+          .join(", "),
+      },
+    };
+  }
+
+  const { resolutions, maxBars } = getPricing().snapshots!.history;
+  const resolution = parsed.data.resolution ?? resolutions[0];
+  if (!resolutions.includes(resolution)) {
+    return {
+      status: 400,
+      error: {
+        code: "INVALID_RESOLUTION",
+        message: `Resolution '${resolution}' is not offered. Available: ${resolutions.join(", ")}`,
+      },
+    };
+  }
+
+  const now = Date.now();
+  const fromMs = parsed.data.from;
+  const toMs = Math.min(parsed.data.to ?? now, now);
+  if (fromMs >= toMs) {
+    return {
+      status: 400,
+      error: { code: "VALIDATION_ERROR", message: "'from' must be before 'to' and in the past" },
+    };
+  }
+  const resolutionMs = durationToMs(resolution)!;
+  const bars = Math.ceil((toMs - fromMs) / resolutionMs);
+  if (bars > maxBars) {
+    return {
+      status: 400,
+      error: {
+        code: "HISTORY_RANGE_TOO_LARGE",
+        message: `The range covers ${bars} bars at ${resolution}; at most ${maxBars} are returned per call`,
+        hint: "Narrow the range or use a coarser resolution",
+      },
+    };
+  }
+  return { range: { fromMs, toMs, resolutionMs }, resolution };
+}
+
+function check(
+  product: SnapshotProduct,
+  req: Request<Record<string, string>>
+): { feed: TickerInfo; history?: { range: HistoryRange; resolution: string } } | ErrorResult {
+  const found = findFeed(req.params.ticker);
+  if ("error" in found) return found;
+  if (product === "price") return found;
+  const history = checkHistory(req.query);
+  return "error" in history ? history : { ...found, history };
+}
+
+/** Reject unknown tickers and bad ranges before the x402 challenge is issued. */
+export function validateSnapshot(product: SnapshotProduct) {
+  return (req: Request<Record<string, string>>, res: Response, next: NextFunction): void => {
+    const result = check(product, req);
+    if ("error" in result) {
+      res.status(result.status).json({ error: result.error });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * x402 dynamic price for `GET /v1/price/:ticker` and `/v1/history/:ticker`,
+ * from the asset type of the ticker in `path`. Unknown tickers never reach
+ * the challenge (see `validateSnapshot`).
+ */
+export function snapshotPrice(product: SnapshotProduct, path: string): string {
+  const found = findFeed(decodeURIComponent(path.split("/").pop() ?? ""));
+  if ("error" in found) throw new Error(found.error.message);
+  return computeSnapshotPrice(product, found.feed.assetType)!.formatted;
+}
+
+/** What a per-call request would spend, for the buyer's spending policy. */
+export function snapshotSpend(product: SnapshotProduct) {
+  return async (req: Request<Record<string, string>>): Promise<Spend | undefined> => {
+    const found = findFeed(req.params.ticker);
+    if ("error" in found) return undefined;
+    const { assetType } = found.feed;
+    return { assetType, dollars: computeSnapshotPrice(product, assetType)!.dollars };
+  };
+}
+
+/** Feed fields shared by both responses. */
+function describeFeed(feed: TickerInfo) {
+  return {
+    ticker: feed.alias ?? feed.id,
+    feedId: feed.feedId,
+    symbol: feed.symbol,
+    assetType: feed.assetType,
+  };
+}
+
+export function snapshotHandler(product: SnapshotProduct) {
+  return async (req: Request<Record<string, string>>, res: Response): Promise<void> => {
+    const result = check(product, req);
+    if ("error" in result) {
+      res.status(result.status).json({ error: result.error });
+      return;
+    }
+    const { feed, history } = result;
+    const price = computeSnapshotPrice(product, feed.assetType)!;
+    const payment = getPayment(req);
+
+    // An error status means the payment is never settled
+    let data: Awaited<ReturnType<typeof fetchLatest | typeof fetchHistory>>;
+    try {
+      data = history
+        ? await fetchHistory(feed, history.range, history.resolution)
+        : await fetchLatest(feed);
+    } catch (err) {
+      logger.error({ err, feedId: feed.feedId, product }, "Price upstream request failed");
+      res.status(502).json({
+        error: { code: "UPSTREAM_UNAVAILABLE", message: "Could not fetch prices — you were not charged" },
+      });
+      return;
+    }
+    if ("bars" in data && data.bars.length === 0) {
+      res.status(404).json({
+        error: { code: "NO_DATA", message: "No prices in the requested range — you were not charged" },
+      });
+      return;
+    }
+
+    onSettled(req, res, price.dollars, async () => {
+      recordRevenue(product, { assetType: feed.assetType, channel: "", duration: "" }, price.dollars);
+    });
+
+    logger.info(
+      {
+        wallet: payment.payer,
+        network: payment.network,
+        nonce: payment.nonce,
+        product,
+        feedId: feed.feedId,
+        assetType: feed.assetType,
+        pricePaid: price.formatted,
+      },
+      "Snapshot sold"
+    );
+
+    res.json({
+      ...describeFeed(feed),
+      ...data,
+      pricePaid: price.formatted,
+      payment: { payer: payment.payer, ...paymentDetails(payment) },
+    });
+  };
+}
+
+async function fetchLatest(feed: TickerInfo) {
+  const quote = await getPriceSource().latest(feed);
+  const decimal = (mantissa: string | null) =>
+    mantissa === null ? null : toDecimal(mantissa, quote.exponent);
+  return {
+    price: decimal(quote.price),
+    confidence: decimal(quote.confidence),
+    bestBidPrice: decimal(quote.bestBidPrice),
+    bestAskPrice: decimal(quote.bestAskPrice),
+    // Raw values as published, for checking against the signed update
+    rawPrice: quote.price,
+    exponent: quote.exponent,
+    publishedAt: quote.publishedAt.toISOString(),
+    signedUpdate: quote.signedUpdate,
+  };
+}
+
+async function fetchHistory(feed: TickerInfo, range: HistoryRange, resolution: string) {
+  const bars = await getPriceSource().history(feed, range);
+  return {
+    from: new Date(range.fromMs).toISOString(),
+    to: new Date(range.toMs).toISOString(),
+    resolution,
+    bars: bars.map((b) => ({ ...b, time: b.time.toISOString() })),
+  };
+}
@@ -4,19 +4,82 @@ import {
   getAssetTypes,
   getChannels,
   getDurations,
+  getBundleConfig,
+  getSurgeMultiplier,
   computePrice,
+  computeSnapshotPrice,
+  getMarketWindow,
+  getPricing,
+  type PricingConfig,
 } from "../pricing.js";
-import { getTickersForAssetType, getAllTickers } from "../symbols.js";
+import { getTickerInfo, getAllTickers, resolveFeed } from "../symbols.js";
+import { getPaymentOptions, type PaymentOption } from "../payment.js";
+import { resolveRequested } from "./purchase.js";
 
 export const pricingRouter = Router();
 
-const querySchema = z.object({
+/** Window a purchase made now would receive under the asset type's market hours. */
+export interface EffectiveWindow {
+  startsAt: string;
+  expiresAt: string;
+  tradingHours: number;
+}
+
+/** One purchasable tier, priced for a purchase made now. */
+export interface PricingRow {
+  assetType: string;
+  channel: string;
+  duration: string;
+  price: string;
+  surgeMultiplier: number;
+  purchaseUrl: string;
+  /** Only for asset types priced by their trading calendar. */
+  effectiveWindow?: EffectiveWindow;
+}
+
+/** Response of `GET /v1/pricing`. */
+export interface PricingResponse {
+  assetTypes: PricingConfig["assetTypes"];
+  channels: PricingConfig["channels"];
+  durations: PricingConfig["durations"];
+  bundleDiscounts: PricingConfig["bundle"];
+  marketHours: PricingConfig["marketHours"];
+  pricing: PricingRow[];
+  /** Present when tickers were requested: one purchase covering all of them. */
+  bundleQuote?: { tickers: string[]; feedCount: number; pricing: PricingRow[] };
+  snapshots?: {
+    resolutions: string[];
+    maxBars: number;
+    pricing: Array<{ assetType: string; price: string; history: string }>;
+  };
+  /** Ticker → feed ID, per asset type. */
+  supportedTickers: Record<string, Record<string, { feedId: number }>>;
+  paymentOptions: PaymentOption[];
+  instructions: string;
+}
+
+function effectiveWindow(
+  assetType: string,
+  duration: string,
+  now: number
+): EffectiveWindow | undefined {
+  if (!getPricing().marketHours[assetType]) return undefined;
+  const window = getMarketWindow(assetType, duration, now);
+  if (!window) return undefined;
+  return {
+    startsAt: window.startsAt.toISOString(),
+    expiresAt: window.expiresAt.toISOString(),
+    tradingHours: window.tradingHours!,
+  };
+}
+
+export const querySchema = z.object({
   ticker: z.string().optional(),
   assetType: z.string().optional(),
   channel: z.string().optional(),
 });
 
-pricingRouter.get("/", (req, res) => {
+pricingRouter.get("/", async (req, res, next) => {
   const parsed = querySchema.safeParse(req.query);
   if (!parsed.success) {
     res.status(400).json({
@@ -30,6 +93,14 @@ pricingRouter.get("/", (req, res) => {
     return;
   }
 
+  let paymentOptions: PaymentOption[];
+  try {
+    paymentOptions = await getPaymentOptions();
+  } catch (err) {
+    next(err);
+    return;
+  }
+
   const { ticker: tickerParam, assetType, channel } = parsed.data;
   const assetTypes = getAssetTypes();
   const channels = getChannels();
@@ -59,23 +130,52 @@ pricingRouter.get("/", (req, res) => {
 
   // Parse comma-separated tickers
   const tickers = tickerParam
-    ? tickerParam.split(",").map((t) => t.trim()).filter(Boolean)
+    ? [...new Set(tickerParam.split(",").map((t) => t.trim()).filter(Boolean))]
     : [];
 
+  const bundleConfig = getBundleConfig();
+  if (tickers.length > bundleConfig.maxFeeds) {
+    res.status(400).json({
+      error: {
+        code: "BUNDLE_TOO_LARGE",
+        message: `A purchase can include at most ${bundleConfig.maxFeeds} tickers (got ${tickers.length})`,
+      },
+    });
+    return;
+  }
+
   // Validate each ticker exists in at least one asset type
   const invalidTickers: string[] = [];
+  const ambiguousTickers: string[] = [];
+  const candidates: string[] = [];
   if (tickers.length > 0) {
-    const allTickerData = getAllTickers();
     for (const t of tickers) {
-      const found = Object.keys(assetTypes).some((at) => allTickerData[at]?.[t]);
-      if (!found) invalidTickers.push(t);
+      const results = Object.keys(assetTypes).map((at) => resolveFeed(at, t));
+      if (results.some((r) => "feed" in r)) continue;
+      const ambiguous = results.find((r) => "candidates" in r);
+      if (ambiguous && "candidates" in ambiguous) {
+        ambiguousTickers.push(`'${t}' matches ${ambiguous.candidates.join(", ")}`);
+        candidates.push(...ambiguous.candidates);
+      } else {
+        invalidTickers.push(t);
+      }
+    }
+    if (ambiguousTickers.length > 0) {
+      res.status(400).json({
+        error: {
+          code: "AMBIGUOUS_TICKER",
+          message: ambiguousTickers.join("; "),
+          hint: `Use one of the canonical IDs instead: ${candidates.join(", ")}`,
+        },
+      });
+      return;
     }
     if (invalidTickers.length > 0) {
       res.status(400).json({
         error: {
           code: "INVALID_TICKER",
           message: `Ticker(s) not found: ${invalidTickers.join(", ")}`,
-          hint: "Look up valid symbols and feed IDs at https://history.pyth-lazer.dourolabs.app/history/v1/symbols",
+          hint: "Search feeds with GET /v1/symbols?q=...",
         },
       });
       return;
@@ -88,45 +188,86 @@ pricingRouter.get("/", (req, res) => {
   // If tickers are provided, narrow to asset types that contain at least one
   let effectiveAssetTypes = filteredAssetTypes;
   if (tickers.length > 0) {
-    effectiveAssetTypes = filteredAssetTypes.filter((at) => {
-      const atTickers = getTickersForAssetType(at);
-      return tickers.some((t) => t in atTickers);
-    });
+    effectiveAssetTypes = filteredAssetTypes.filter((at) =>
+      tickers.some((t) => getTickerInfo(at, t))
+    );
   }
 
   const filteredChannels = channel ? [channel] : Object.keys(channels);
 
   // Build pricing matrix
-  const pricing: Array<{
-    assetType: string;
-    channel: string;
-    duration: string;
-    price: string;
-    purchaseUrl: string;
-  }> = [];
+  const pricing: PricingRow[] = [];
 
+  // One clock for the whole response so every calendar-priced row agrees
+  const now = Date.now();
   for (const at of effectiveAssetTypes) {
     for (const ch of filteredChannels) {
       for (const dur of durations) {
-        const p = computePrice(at, ch, dur.path);
+        const p = computePrice(at, ch, dur.path, 1, now);
         if (p) {
+          const window = effectiveWindow(at, dur.path, now);
           pricing.push({
             assetType: at,
             channel: ch,
             duration: dur.path,
             price: p.formatted,
+            surgeMultiplier: getSurgeMultiplier(at, ch),
             purchaseUrl: `/v1/purchase/${at}/${ch}/${dur.path}`,
+            ...(window && { effectiveWindow: window }),
           });
         }
       }
     }
   }
 
+  // Bundle quote: one purchase covering every requested ticker. Only asset
+  // types that list all of them can sell it. Like the purchase, it is priced
+  // by distinct feeds: "BTC-USD" and "Crypto.BTC-USD" are one feed.
+  let bundleQuote: PricingResponse["bundleQuote"];
+  if (tickers.length > 0) {
+    const bundles = effectiveAssetTypes
+      .map((at) => ({ at, ...resolveRequested(at, tickers) }))
+      .filter((b) => b.invalid.length === 0 && b.ambiguous.length === 0);
+    bundleQuote = {
+      tickers,
+      feedCount: bundles[0]?.feeds.length ?? tickers.length,
+      pricing: [],
+    };
+    for (const { at, feeds } of bundles) {
+      for (const ch of filteredChannels) {
+        for (const dur of durations) {
+          const p = computePrice(at, ch, dur.path, feeds.length, now);
+          if (p) {
+            const window = effectiveWindow(at, dur.path, now);
+            bundleQuote.pricing.push({
+              assetType: at,
+              channel: ch,
+              duration: dur.path,
+              price: p.formatted,
+              surgeMultiplier: getSurgeMultiplier(at, ch),
+              purchaseUrl: `/v1/purchase/${at}/${ch}/${dur.path}`,
+              ...(window && { effectiveWindow: window }),
+            });
+          }
+        }
+      }
+    }
+  }
+
+  // Per-call single prices and history, when sold
+  const snapshotConfig = getPricing().snapshots;
+  const snapshots = snapshotConfig && {
+    resolutions: snapshotConfig.history.resolutions,
+    maxBars: snapshotConfig.history.maxBars,
+    pricing: effectiveAssetTypes.map((at) => ({
+      assetType: at,
+      price: computeSnapshotPrice("price", at)!.formatted,
+      history: computeSnapshotPrice("history", at)!.formatted,
+    })),
+  };
+
   // Build supported tickers for the response
-  const supportedTickers: Record<
-    string,
-    Record<string, { feedId: number }>
-  > = {};
+  const supportedTickers: PricingResponse["supportedTickers"] = {};
   const allTickers = getAllTickers();
   for (const at of effectiveAssetTypes) {
     const atTickers = allTickers[at];
@@ -135,7 +276,8 @@ pricingRouter.get("/", (req, res) => {
       // Only include the requested tickers
       const matched: Record<string, { feedId: number }> = {};
       for (const t of tickers) {
-        if (atTickers[t]) matched[t] = { feedId: atTickers[t].feedId };
+        const info = getTickerInfo(at, t);
+        if (info) matched[info.alias ?? info.id] = { feedId: info.feedId };
       }
       if (Object.keys(matched).length > 0) supportedTickers[at] = matched;
     } else {
@@ -149,10 +291,24 @@ pricingRouter.get("/", (req, res) => {
     assetTypes,
     channels,
     durations,
+    bundleDiscounts: bundleConfig,
+    marketHours: getPricing().marketHours,
     pricing,
+    ...(bundleQuote && { bundleQuote }),
+    ...(snapshots && { snapshots }),
     supportedTickers,
+    paymentOptions,
     instructions:
-      "Purchase access via POST /v1/purchase/:assetType/:channel/:duration with {\"ticker\":\"BTC-USD\"}. " +
-      "After x402 payment, the response includes Pyth Pro credentials and a ready-to-use subscribe message.",
-  });
+      "Purchase access via POST /v1/purchase/:assetType/:channel/:duration with {\"ticker\":\"BTC-USD\"}, " +
+      "or several feeds at once with {\"tickers\":[\"BTC-USD\",\"ETH-USD\"]} (bundle pricing applies). " +
+      "Feeds can also be named by canonical ID (\"Crypto.BTC-USD\"), full symbol (\"Crypto.BTC/USD\") " +
+      "or feed ID ({\"feedIds\":[1,2]}); short tickers shared by several feeds must use one of these. " +
+      "Every paid route accepts any of paymentOptions; pay in whichever network and token you hold. " +
+      "Asset types listed in marketHours are priced by their trading calendar; effectiveWindow shows " +
+      "the window a purchase made now receives. " +
+      "After x402 payment, the response includes a scoped access token and a ready-to-use subscribe message. " +
+      "For a single verified price or OHLC bars instead of a stream, pay per call on GET /v1/price/:ticker " +
+      "or GET /v1/history/:ticker?from=...&to=...&resolution=... (see snapshots). " +
+      "Machine-readable: GET /openapi.json (OpenAPI 3.1 with x-x402 prices) and GET /.well-known/x402.",
+  } satisfies PricingResponse);
 });
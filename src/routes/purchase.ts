@@ -1,92 +1,431 @@
-import type { Request, Response } from "express";
+import type { NextFunction, Request, Response } from "express";
 import { z } from "zod";
 import { config } from "../config.js";
 import { createLogger } from "../logger.js";
-import { computePrice, getChannels } from "../pricing.js";
-import { getTickerInfo, getTickersForAssetType } from "../symbols.js";
+import {
+  computePrice,
+  durationToMs,
+  getBundleConfig,
+  getChannels,
+  getMarketWindow,
+} from "../pricing.js";
+import { getTickersForAssetType, resolveFeed, type TickerInfo } from "../symbols.js";
+import { issueAccessToken } from "../tokens.js";
+import { RELAY_PATH } from "../relay.js";
+import { getLedger, type PurchaseRecord } from "../ledger.js";
+import {
+  getPayment,
+  onSettled,
+  paidDollars,
+  refundUnlessDelivered,
+  type PaymentContext,
+} from "../payment.js";
+import { applyCredit, getCredits, redeemCredit } from "../credits.js";
+import { recordRevenue } from "../metrics.js";
+import { sendReceiptOnSettlement } from "../receipts.js";
+import type { Spend } from "../policies.js";
 
 const logger = createLogger("purchase");
 
-const purchaseBody = z.object({
-  ticker: z.string().regex(/^[A-Z0-9]+-[A-Z]+$/),
-});
+/** Ready-to-send Pyth Pro subscribe message for the purchased feeds. */
+export function buildSubscribeMessage(feedIds: number[], wsChannel: string) {
+  return {
+    type: "subscribe",
+    subscriptionId: 1,
+    priceFeedIds: feedIds,
+    properties: ["price", "bestBidPrice", "bestAskPrice", "exponent", "confidence"],
+    formats: ["evm", "solana"],
+    channel: wsChannel,
+    deliveryFormat: "json",
+    jsonBinaryEncoding: "hex",
+  };
+}
+
+export type SubscribeMessage = ReturnType<typeof buildSubscribeMessage>;
+
+/** Payment fields returned to the buyer and kept in the ledger. */
+export function paymentDetails(payment: PaymentContext) {
+  return {
+    network: payment.network,
+    asset: payment.asset,
+    amount: payment.amount,
+    nonce: payment.nonce,
+  };
+}
+
+/** The verified payment, as echoed back in paid responses. */
+export type PaymentReceipt = { payer: string } & ReturnType<typeof paymentDetails>;
+
+/** Response of a paid `POST /v1/purchase/:assetType/:channel/:duration`. */
+export interface PurchaseResponse {
+  /** Single-ticker purchases only. */
+  ticker?: string;
+  feedId?: number;
+  tickers: string[];
+  feedIds: number[];
+  symbols: string[];
+  assetType: string;
+  channel: string;
+  duration: string;
+  pricePaid: string;
+  creditApplied?: string;
+  startsAt: string;
+  expiresAt: string;
+  payment: PaymentReceipt;
+  pythPro: {
+    accessToken: string;
+    tokenId: string;
+    websocketUrls: string[];
+    authMethod: string;
+    subscribe: SubscribeMessage;
+  };
+  /** Signed receipt, as in the `PURCHASE-RECEIPT` header; added once the payment settles. */
+  receipt?: string;
+}
+
+/** URL buyers connect to — the gateway relay, never the upstream routers. */
+function relayUrl(req: Request): string {
+  if (config.PUBLIC_WS_URL) return config.PUBLIC_WS_URL;
+  const scheme = req.protocol === "https" ? "wss" : "ws";
+  return `${scheme}://${req.get("host")}${RELAY_PATH}`;
+}
+
+// Short ticker ("BTC-USD"), canonical ID ("Crypto.BTC-USD") or full symbol ("Crypto.BTC/USD")
+const tickerSchema = z.string().min(1).max(100);
+const feedIdSchema = z.number().int().nonnegative();
+
+export const purchaseBody = z
+  .object({
+    ticker: tickerSchema.optional(),
+    tickers: z.array(tickerSchema).min(1).optional(),
+    feedId: feedIdSchema.optional(),
+    feedIds: z.array(feedIdSchema).min(1).optional(),
+  })
+  .refine(
+    (b) =>
+      [b.ticker, b.tickers, b.feedId, b.feedIds].filter((v) => v !== undefined).length === 1,
+    { message: "Provide exactly one of 'ticker', 'tickers', 'feedId' or 'feedIds'" }
+  );
+
+export type PurchaseBody = z.infer<typeof purchaseBody>;
+
+/** Requested feed references, de-duplicated, in request order. */
+function requestedRefs(body: PurchaseBody): Array<string | number> {
+  return [
+    ...new Set<string | number>(
+      body.tickers ?? body.feedIds ?? [body.ticker ?? body.feedId!]
+    ),
+  ];
+}
+
+/**
+ * Resolve requested references to feeds of `assetType`. References naming
+ * the same feed (e.g. "BTC-USD" and 1) count once.
+ */
+export function resolveRequested(assetType: string, refs: Array<string | number>) {
+  const feeds = new Map<number, TickerInfo>();
+  const invalid: Array<string | number> = [];
+  const ambiguous: Array<{ ref: string | number; candidates: string[] }> = [];
+  for (const ref of refs) {
+    const result = resolveFeed(assetType, ref);
+    if ("feed" in result) feeds.set(result.feed.feedId, result.feed);
+    else if (result.error === "AMBIGUOUS") ambiguous.push({ ref, candidates: result.candidates });
+    else invalid.push(ref);
+  }
+  return { feeds: [...feeds.values()], invalid, ambiguous };
+}
+
+type CheckResult =
+  | { feeds: TickerInfo[] }
+  | { status: number; error: { code: string; message: string; hint?: string } };
+
+/**
+ * Validate a purchase request body and resolve its feeds. Shared by the
+ * pre-payment validation, the x402 dynamic price and the handler.
+ */
+function checkPurchase(assetType: string, body: unknown): CheckResult {
+  const parsed = purchaseBody.safeParse(body);
+  if (!parsed.success) {
+    return {
+      status: 400,
+      error: {
+        code: "VALIDATION_ERROR",
+        message: parsed.error.errors
+          .map((e) => `${e.path.join(".")}: ${e.message}`)
+          .join(", "),
+      },
+    };
+  }
+
+  const { feeds, invalid, ambiguous } = resolveRequested(assetType, requestedRefs(parsed.data));
+  if (invalid.length > 0) {
+    const available = Object.keys(getTickersForAssetType(assetType));
+    return {
+      status: 400,
+      error: {
+        code: "INVALID_TICKER",
+        message: `Ticker(s) ${invalid.map((t) => `'${t}'`).join(", ")} not valid ${assetType} tickers. Available: ${available.slice(0, 10).join(", ")}${available.length > 10 ? ` ... (${available.length} total)` : ""}`,
+        hint: "Search feeds with GET /v1/symbols?q=...",
+      },
+    };
+  }
+  if (ambiguous.length > 0) {
+    return {
+      status: 400,
+      error: {
+        code: "AMBIGUOUS_TICKER",
+        message: ambiguous
+          .map((a) => `'${a.ref}' matches several feeds: ${a.candidates.join(", ")}`)
+          .join("; "),
+        hint: `Use one of the canonical IDs instead: ${ambiguous
+          .flatMap((a) => a.candidates)
+          .join(", ")}`,
+      },
+    };
+  }
+
+  const { maxFeeds } = getBundleConfig();
+  if (feeds.length > maxFeeds) {
+    return {
+      status: 400,
+      error: {
+        code: "BUNDLE_TOO_LARGE",
+        message: `A purchase can include at most ${maxFeeds} tickers (got ${feeds.length})`,
+      },
+    };
+  }
+  return { feeds };
+}
+
+/**
+ * Reject bodies the handler would refuse before the x402 challenge is
+ * issued, so a buyer is never asked to pay for a request that cannot succeed.
+ */
+export function validatePurchase(assetType: string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const result = checkPurchase(assetType, req.body);
+    if ("error" in result) {
+      res.status(result.status).json({ error: result.error });
+      return;
+    }
+    next();
+  };
+}
+
+/** Store credit `wallet` has towards a purchase priced at `dollars`. */
+async function creditFor(wallet: string | undefined, dollars: number) {
+  const balance = wallet ? await getCredits().balance(wallet) : 0;
+  return applyCredit(dollars, balance);
+}
+
+/**
+ * Price for a purchase request body, used by the x402 route config so the
+ * challenge charges for the bundle size actually requested, less any store
+ * credit held by `wallet` (the `X-Wallet-Address` header). Invalid bodies
+ * never reach the challenge (see `validatePurchase`) and are quoted as a
+ * single feed.
+ */
+export async function quotePurchase(
+  assetType: string,
+  channel: string,
+  duration: string,
+  body: unknown,
+  wallet?: string
+): Promise<string | undefined> {
+  const charged = await chargeFor(assetType, channel, duration, body, wallet);
+  return charged === undefined ? undefined : `$${charged.toFixed(2)}`;
+}
+
+/** USD a purchase request body is charged; see `quotePurchase`. */
+async function chargeFor(
+  assetType: string,
+  channel: string,
+  duration: string,
+  body: unknown,
+  wallet?: string
+): Promise<number | undefined> {
+  const result = checkPurchase(assetType, body);
+  const feedCount = "feeds" in result ? result.feeds.length : 1;
+  const price =
+    computePrice(assetType, channel, duration, feedCount) ??
+    computePrice(assetType, channel, duration);
+  if (!price) return undefined;
+  return (await creditFor(wallet, price.dollars)).charged;
+}
+
+/** What a purchase request would spend, for the buyer's spending policy. */
+export function purchaseSpend(assetType: string, channel: string, duration: string) {
+  return async (req: Request): Promise<Spend | undefined> => {
+    const dollars = await chargeFor(
+      assetType,
+      channel,
+      duration,
+      req.body,
+      req.get("x-wallet-address")
+    );
+    return dollars === undefined ? undefined : { assetType, channel, dollars };
+  };
+}
+
+/** Full price of a purchase request, for paying it from the prepaid balance. */
+export function purchasePrice(assetType: string, channel: string, duration: string) {
+  return (req: Request): Promise<number | undefined> =>
+    chargeFor(assetType, channel, duration, req.body);
+}
 
 export function purchaseHandler(assetType: string, channelSlug: string, duration: string) {
   return async (req: Request, res: Response): Promise<void> => {
-    const parsed = purchaseBody.safeParse(req.body);
-    if (!parsed.success) {
-      res.status(400).json({
+    const result = checkPurchase(assetType, req.body);
+    if ("error" in result) {
+      res.status(result.status).json({ error: result.error });
+      return;
+    }
+    const { feeds } = result;
+
+    // Aliases where unambiguous, canonical IDs otherwise — the keys /v1/pricing lists
+    const tickers = feeds.map((f) => f.alias ?? f.id);
+    const feedIds = feeds.map((f) => f.feedId);
+
+    const now = Date.now();
+    const price = computePrice(assetType, channelSlug, duration, tickers.length, now);
+    const channels = getChannels();
+    const wsChannel = channels[channelSlug]?.wsChannel ?? "fixed_rate@200ms";
+    const durationMs = durationToMs(duration) ?? 0;
+    // Starts at the next market open for asset types priced that way
+    const window = getMarketWindow(assetType, duration, now);
+
+    // Verified by the x402 middleware, or already drawn from the prepaid
+    // balance; an x402 settlement happens after we respond
+    const payment = getPayment(req);
+
+    // Scoped credential: only these feeds, this channel, until the paid duration ends
+    const { token, claims } = issueAccessToken({
+      feedIds,
+      channel: channelSlug,
+      wsChannel,
+      durationMs,
+      startsAt: window?.startsAt,
+      id: payment.purchaseId,
+    });
+    const expiresAt = new Date(claims.exp * 1000).toISOString();
+
+    // The declared wallet is unverified: credit is only spent by its owner.
+    // A drawdown spends no store credit beyond the balance it was drawn from.
+    const creditWallet = req.get("x-wallet-address");
+    if (
+      payment.scheme !== "credit" &&
+      creditWallet &&
+      creditWallet.toLowerCase() !== payment.payer.toLowerCase() &&
+      (await creditFor(creditWallet, price?.dollars ?? 0)).creditUsed > 0
+    ) {
+      // An error status means the payment is never settled
+      res.status(403).json({
         error: {
-          code: "VALIDATION_ERROR",
-          message: parsed.error.errors
-            .map((e) => `${e.path.join(".")}: ${e.message}`)
-            .join(", "),
+          code: "CREDIT_WALLET_MISMATCH",
+          message: "Store credit can only be applied to payments signed by the same wallet",
         },
       });
       return;
     }
 
-    const { ticker } = parsed.data;
-    const tickerInfo = getTickerInfo(assetType, ticker);
-    if (!tickerInfo) {
-      const available = Object.keys(getTickersForAssetType(assetType));
-      res.status(400).json({
+    // A drawdown has paid the full price from the balance. Otherwise the
+    // same split the challenge was priced with is debited now, before the
+    // response, and given back if the payment does not settle.
+    const { charged, creditUsed } =
+      payment.scheme === "credit"
+        ? { charged: Number(payment.amount) / 100, creditUsed: 0 }
+        : creditWallet
+          ? await redeemCredit(creditWallet, price?.dollars ?? 0, claims.jti)
+          : { charged: price?.dollars ?? 0, creditUsed: 0 };
+    if (creditUsed > 0) {
+      refundUnlessDelivered(res, creditWallet!, creditUsed, "redemption_released", claims.jti);
+    }
+    const paid = payment.scheme === "credit" ? charged : await paidDollars(payment);
+    if (paid !== undefined && Math.round(paid * 100) < Math.round(charged * 100)) {
+      // Another purchase spent the credit this payment was quoted with
+      res.status(409).json({
         error: {
-          code: "INVALID_TICKER",
-          message: `Ticker '${ticker}' is not a valid ${assetType} ticker. Available: ${available.slice(0, 10).join(", ")}${available.length > 10 ? ` ... (${available.length} total)` : ""}`,
-          hint: "Look up valid symbols and feed IDs at https://history.pyth-lazer.dourolabs.app/history/v1/symbols",
+          code: "CREDIT_UNAVAILABLE",
+          message: "The store credit this payment was quoted with was spent by another purchase",
+          hint: "Request a new quote and pay the amount it challenges",
         },
       });
       return;
     }
 
-    const price = computePrice(assetType, channelSlug, duration);
-    const channels = getChannels();
-    const wsChannel = channels[channelSlug]?.wsChannel ?? "fixed_rate@200ms";
-
-    // Payment was already verified + settled by x402 middleware.
-    // Extract payer wallet from x402 payment data.
-    const payerWallet =
-      (req as any).payerAddress ??
-      (req.headers["x-payer-address"] as string) ??
-      "unknown";
+    const record: Omit<PurchaseRecord, "txHash" | "wallet"> = {
+      id: claims.jti,
+      tickers,
+      feedIds,
+      assetType,
+      channel: channelSlug,
+      duration,
+      pricePaid: charged,
+      ...(creditUsed > 0 && { creditApplied: creditUsed }),
+      startsAt: window?.startsAt.toISOString() ?? new Date(claims.iat * 1000).toISOString(),
+      expiresAt,
+      payment: paymentDetails(payment),
+    };
+    onSettled(req, res, charged, async (settled) => {
+      recordRevenue("purchase", { assetType, channel: channelSlug, duration }, charged);
+      await getLedger().insert({ ...record, wallet: settled.payer, txHash: settled.txHash });
+    });
+    // Signed proof of the purchase a buyer can show a third party
+    sendReceiptOnSettlement(req, res, {
+      kind: "purchase",
+      purchaseId: record.id,
+      wallet: payment.payer,
+      feedIds,
+      assetType,
+      channel: channelSlug,
+      duration,
+      price: `$${charged.toFixed(2)}`,
+      payment: { network: payment.network, asset: payment.asset, amount: payment.amount, txHash: null },
+      startsAt: record.startsAt,
+      expiresAt,
+    });
 
     // Audit trail via structured log
     logger.info(
       {
-        wallet: payerWallet,
-        ticker,
-        feedId: tickerInfo.feedId,
+        wallet: payment.payer,
+        network: payment.network,
+        nonce: payment.nonce,
+        tickers,
+        feedIds,
         assetType,
         channel: channelSlug,
         duration,
-        pricePaid: price?.formatted,
+        pricePaid: `$${charged.toFixed(2)}`,
+        creditApplied: creditUsed,
+        tokenId: claims.jti,
+        expiresAt,
       },
       "Purchase completed"
     );
 
     res.json({
-      ticker,
-      feedId: tickerInfo.feedId,
+      // Single-ticker purchases keep the original flat fields
+      ...(tickers.length === 1 && { ticker: tickers[0], feedId: feedIds[0] }),
+      tickers,
+      feedIds,
+      symbols: feeds.map((f) => f.symbol),
       assetType,
       channel: channelSlug,
       duration,
-      pricePaid: price?.formatted,
+      pricePaid: `$${charged.toFixed(2)}`,
+      ...(creditUsed > 0 && { creditApplied: `$${creditUsed.toFixed(2)}` }),
+      startsAt: record.startsAt,
+      expiresAt,
+      // The settlement tx hash arrives in the PAYMENT-RESPONSE header
+      payment: { payer: payment.payer, ...paymentDetails(payment) },
       pythPro: {
-        accessToken: config.PYTH_PRO_ACCESS_TOKEN,
-        websocketUrls: config.PYTH_PRO_WS_URLS,
-        authMethod: "Pass as Authorization: Bearer {accessToken} header when connecting to WebSocket",
-        subscribe: {
-          type: "subscribe",
-          subscriptionId: 1,
-          priceFeedIds: [tickerInfo.feedId],
-          properties: ["price", "bestBidPrice", "bestAskPrice", "exponent", "confidence"],
-          formats: ["evm", "solana"],
-          channel: wsChannel,
-          deliveryFormat: "json",
-          jsonBinaryEncoding: "hex",
-        },
+        accessToken: token,
+        tokenId: claims.jti,
+        websocketUrls: [relayUrl(req)],
+        authMethod: "Pass as Authorization: Bearer {accessToken} header (or ?token={accessToken}) when connecting to WebSocket",
+        subscribe: buildSubscribeMessage(feedIds, wsChannel),
       },
-    });
+    } satisfies PurchaseResponse);
   };
 }
@@ -0,0 +1,34 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getReceiptKeys, verifyReceipt, type ReceiptClaims } from "../receipts.js";
+
+export const receiptsRouter = Router();
+
+export const verifyReceiptBody = z.object({
+  // Compact JWS from the PURCHASE-RECEIPT header of a purchase response
+  receipt: z.string().min(1),
+});
+
+/** Response of `POST /v1/receipts/verify`. */
+export type ReceiptVerification =
+  | { valid: true; keyId: string; claims: ReceiptClaims }
+  | { valid: false };
+
+/**
+ * Check a receipt's signature against the gateway key. The same check can be
+ * done offline with the key at `/.well-known/jwks.json`.
+ */
+receiptsRouter.post("/verify", (req, res) => {
+  const parsed = verifyReceiptBody.safeParse(req.body);
+  if (!parsed.success) {
+    const errors = parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`);
+    res.status(400).json({ error: { code: "VALIDATION_ERROR", message: errors.join(", ") } });
+    return;
+  }
+  const claims = verifyReceipt(parsed.data.receipt);
+  res.json(
+    (claims
+      ? { valid: true, keyId: getReceiptKeys().keys[0].kid, claims }
+      : { valid: false }) satisfies ReceiptVerification
+  );
+});
@@ -0,0 +1,289 @@
+import type { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { createLogger } from "../logger.js";
+import {
+  computePrice,
+  durationToMs,
+  getBundleConfig,
+  getChannels,
+  getDurations,
+} from "../pricing.js";
+import { getLedger, type PurchaseRecord } from "../ledger.js";
+import { getPayment, onSettled } from "../payment.js";
+import { issueCredit } from "../credits.js";
+import { recordRevenue } from "../metrics.js";
+import { sendReceiptOnSettlement } from "../receipts.js";
+import type { Spend } from "../policies.js";
+import { buildSubscribeMessage, paymentDetails } from "./purchase.js";
+
+const logger = createLogger("renew");
+
+const HOUR_MS = 3_600_000;
+
+export const renewBody = z
+  .object({
+    // The purchase ID and the access token ID are the same value
+    purchaseId: z.string().optional(),
+    tokenId: z.string().optional(),
+    duration: z.string(),
+    channel: z.string().optional(),
+  })
+  .refine((b) => (b.purchaseId === undefined) !== (b.tokenId === undefined), {
+    message: "Provide either 'purchaseId' or 'tokenId'",
+  });
+
+export interface RenewalQuote {
+  purchase: PurchaseRecord;
+  duration: string;
+  /** Channel after the renewal (unchanged unless upgrading). */
+  channel: string;
+  /** Price of the added duration at the target channel, USD. */
+  extensionDollars: number;
+  /** Prorated upgrade fee for the time already remaining, USD. */
+  upgradeDollars: number;
+  totalDollars: number;
+  formatted: string;
+}
+
+type QuoteResult =
+  | { quote: RenewalQuote }
+  | { status: number; error: { code: string; message: string } };
+
+const round = (dollars: number) => Math.round(dollars * 100) / 100;
+
+/** Why a renewal of `purchase` on `channel` for `duration` has no price. */
+function unpriceable(
+  purchase: PurchaseRecord,
+  channel: string,
+  duration: string
+): { code: string; message: string } {
+  if (!getChannels()[channel]) {
+    return { code: "INVALID_CHANNEL", message: `Channel '${channel}' is not supported` };
+  }
+  if (!getDurations().some((d) => d.path === duration)) {
+    return { code: "INVALID_DURATION", message: `Duration '${duration}' is not offered` };
+  }
+  // The limit can have been lowered since the purchase was made
+  const { maxFeeds } = getBundleConfig();
+  if (purchase.feedIds.length > maxFeeds) {
+    return {
+      code: "BUNDLE_TOO_LARGE",
+      message: `Renewals are limited to ${maxFeeds} feeds; this purchase has ${purchase.feedIds.length}`,
+    };
+  }
+  return {
+    code: "INVALID_ASSET_TYPE",
+    message: `Asset type '${purchase.assetType}' is no longer offered`,
+  };
+}
+
+/**
+ * Price a renewal request body. Shared by the pre-payment validation, the
+ * x402 dynamic price and the handler so all three agree.
+ */
+export async function quoteRenewal(body: unknown): Promise<QuoteResult> {
+  const parsed = renewBody.safeParse(body);
+  if (!parsed.success) {
+    return {
+      status: 400,
+      error: {
+        code: "VALIDATION_ERROR",
+        message: parsed.error.errors
+          .map((e) => `${e.path.join(".")}: ${e.message}`)
+          .join(", "),
+      },
+    };
+  }
+
+  const id = parsed.data.purchaseId ?? parsed.data.tokenId!;
+  const purchase = await getLedger().get(id);
+  if (!purchase) {
+    return {
+      status: 404,
+      error: { code: "PURCHASE_NOT_FOUND", message: `No purchase with ID '${id}'` },
+    };
+  }
+
+  if (purchase.revoked) {
+    return {
+      status: 409,
+      error: { code: "PURCHASE_REVOKED", message: `Purchase '${id}' was revoked and cannot be renewed` },
+    };
+  }
+
+  const { duration } = parsed.data;
+  const channel = parsed.data.channel ?? purchase.channel;
+  const feedCount = purchase.feedIds.length;
+  // Calendar rules price the extension for the time it actually adds
+  const from = Math.max(Date.parse(purchase.expiresAt), Date.now());
+  const extension = computePrice(purchase.assetType, channel, duration, feedCount, from);
+  if (!extension) return { status: 400, error: unpriceable(purchase, channel, duration) };
+
+  // Upgrade fee: difference in per-ms rate between the channels, applied to
+  // the time still remaining. Remaining time is rounded up to whole hours so
+  // the quote only changes on the hour; a paid retry after it changed gets a
+  // fresh 402 and its payment is not settled.
+  let upgradeDollars = 0;
+  if (channel !== purchase.channel) {
+    const current = computePrice(purchase.assetType, purchase.channel, duration, feedCount, from);
+    const durationMs = durationToMs(duration)!;
+    const rateDiff = (extension.dollars - (current?.dollars ?? 0)) / durationMs;
+    if (rateDiff < 0) {
+      return {
+        status: 400,
+        error: {
+          code: "CHANNEL_DOWNGRADE",
+          message: `Cannot move from '${purchase.channel}' to cheaper channel '${channel}' mid-window`,
+        },
+      };
+    }
+    const remainingMs = Math.max(0, Date.parse(purchase.expiresAt) - Date.now());
+    upgradeDollars = round(rateDiff * Math.ceil(remainingMs / HOUR_MS) * HOUR_MS);
+  }
+
+  const totalDollars = round(extension.dollars + upgradeDollars);
+  return {
+    quote: {
+      purchase,
+      duration,
+      channel,
+      extensionDollars: extension.dollars,
+      upgradeDollars,
+      totalDollars,
+      formatted: `$${totalDollars.toFixed(2)}`,
+    },
+  };
+}
+
+/** Reject unknown purchases and bad bodies before the x402 challenge is issued. */
+export async function validateRenewal(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const result = await quoteRenewal(req.body);
+  if ("error" in result) {
+    res.status(result.status).json({ error: result.error });
+    return;
+  }
+  next();
+}
+
+/** What a renewal request would spend, for the buyer's spending policy. */
+export async function renewalSpend(req: Request): Promise<Spend | undefined> {
+  const result = await quoteRenewal(req.body);
+  if ("error" in result) return undefined;
+  const { quote } = result;
+  return { assetType: quote.purchase.assetType, channel: quote.channel, dollars: quote.totalDollars };
+}
+
+/** x402 dynamic price for `POST /v1/renew`. */
+export async function renewalPrice(body: unknown): Promise<string> {
+  const result = await quoteRenewal(body);
+  if ("error" in result) throw new Error(result.error.message);
+  return result.quote.formatted;
+}
+
+export async function renewHandler(req: Request, res: Response): Promise<void> {
+  const result = await quoteRenewal(req.body);
+  if ("error" in result) {
+    res.status(result.status).json({ error: result.error });
+    return;
+  }
+  const { quote } = result;
+  const { purchase } = quote;
+  const durationMs = durationToMs(quote.duration)!;
+  const wsChannel = getChannels()[quote.channel].wsChannel;
+
+  const payment = getPayment(req);
+
+  // Paid time is added to the current expiry, or starts now if already expired
+  const extendFrom = (expiresAt: string) => Math.max(Date.parse(expiresAt), Date.now());
+  const startsAt = new Date(extendFrom(purchase.expiresAt)).toISOString();
+  const expiresAt = new Date(Date.parse(startsAt) + durationMs).toISOString();
+
+  onSettled(req, res, quote.totalDollars, async (settled) => {
+    recordRevenue(
+      "renewal",
+      { assetType: purchase.assetType, channel: quote.channel, duration: quote.duration },
+      quote.totalDollars
+    );
+    try {
+      // Re-read so concurrent renewals stack instead of overwriting each other
+      const latest = (await getLedger().get(purchase.id)) ?? purchase;
+      const updated = await getLedger().update(purchase.id, {
+        channel: quote.channel,
+        expiresAt: new Date(extendFrom(latest.expiresAt) + durationMs).toISOString(),
+        renewals: [
+          ...(latest.renewals ?? []),
+          {
+            wallet: settled.payer,
+            duration: quote.duration,
+            channel: quote.channel,
+            pricePaid: quote.totalDollars,
+            txHash: settled.txHash,
+            payment: paymentDetails(settled),
+            renewedAt: new Date().toISOString(),
+          },
+        ],
+      });
+      if (!updated) throw new Error(`Purchase ${purchase.id} no longer exists`);
+    } catch (err) {
+      // Paid for time that was never added — make it good as store credit
+      await issueCredit(settled.payer, quote.totalDollars, "renewal_not_applied", {
+        purchaseId: purchase.id,
+        txHash: settled.txHash,
+      });
+      throw err;
+    }
+  });
+
+  // Covers the added time, from where the renewal extends the purchase
+  sendReceiptOnSettlement(req, res, {
+    kind: "renewal",
+    purchaseId: purchase.id,
+    wallet: payment.payer,
+    feedIds: purchase.feedIds,
+    assetType: purchase.assetType,
+    channel: quote.channel,
+    duration: quote.duration,
+    price: quote.formatted,
+    payment: { network: payment.network, asset: payment.asset, amount: payment.amount, txHash: null },
+    startsAt,
+    expiresAt,
+  });
+
+  logger.info(
+    {
+      wallet: payment.payer,
+      network: payment.network,
+      nonce: payment.nonce,
+      purchaseId: purchase.id,
+      duration: quote.duration,
+      fromChannel: purchase.channel,
+      toChannel: quote.channel,
+      pricePaid: quote.formatted,
+      expiresAt,
+    },
+    "Renewal completed"
+  );
+
+  res.json({
+    purchaseId: purchase.id,
+    tickers: purchase.tickers,
+    feedIds: purchase.feedIds,
+    assetType: purchase.assetType,
+    channel: quote.channel,
+    previousExpiresAt: purchase.expiresAt,
+    expiresAt,
+    pricePaid: quote.formatted,
+    payment: { payer: payment.payer, ...paymentDetails(payment) },
+    breakdown: {
+      extension: `$${quote.extensionDollars.toFixed(2)}`,
+      upgrade: `$${quote.upgradeDollars.toFixed(2)}`,
+    },
+    // The existing access token stays valid; after a channel upgrade, re-send
+    // this subscribe message on the open connection.
+    subscribe: buildSubscribeMessage(purchase.feedIds, wsChannel),
+  });
+}
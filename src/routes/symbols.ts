@@ -0,0 +1,47 @@
+import { Router } from "express";
+import { z } from "zod";
+import { searchSymbols } from "../symbols.js";
+
+export const symbolsRouter = Router();
+
+export const querySchema = z.object({
+  q: z.string().optional(),
+  assetType: z.string().optional(),
+  quoteCurrency: z.string().optional(),
+  state: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().nonnegative().default(0),
+});
+
+symbolsRouter.get("/", (req, res) => {
+  const parsed = querySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({
+      error: {
+        code: "VALIDATION_ERROR",
+        message: parsed.error.errors
+          .map((e) => `${e.path.join(".")}: ${e.message}`)
+          .join(", "),
+      },
+    });
+    return;
+  }
+
+  const { offset, limit } = parsed.data;
+  const { total, results } = searchSymbols(parsed.data);
+
+  res.json({
+    total,
+    offset,
+    limit,
+    results,
+    ...(offset + results.length < total && {
+      next: `/v1/symbols?${new URLSearchParams({
+        ...Object.fromEntries(
+          Object.entries(req.query).filter(([, v]) => typeof v === "string") as [string, string][]
+        ),
+        offset: String(offset + limit),
+      })}`,
+    }),
+  });
+});
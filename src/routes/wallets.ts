@@ -0,0 +1,120 @@
+import { Router } from "express";
+import { z } from "zod";
+import { verifyTypedData } from "viem";
+import { getAssetTypes, getChannels } from "../pricing.js";
+import { getBudget, lastIssuedAt, registerPolicy } from "../policies.js";
+import { policyTypedData } from "../policymessage.js";
+
+/** How far `issuedAt` may be from the gateway's clock. */
+const MAX_SIGNATURE_SKEW_MS = 300_000;
+
+export const walletsRouter = Router();
+
+const walletSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Must be a 0x-prefixed EVM address");
+
+export const policyBody = z.object({
+  maxPerPurchase: z.number().positive().optional(),
+  maxPerDay: z.number().positive().optional(),
+  allowedAssetTypes: z.array(z.string()).min(1).optional(),
+  allowedChannels: z.array(z.string()).min(1).optional(),
+  // Unix milliseconds; must be newer than the wallet's previous policy
+  issuedAt: z.number().int().positive(),
+  // EIP-712 signature by the wallet over policyTypedData
+  signature: z.string().regex(/^0x[0-9a-fA-F]+$/),
+});
+
+/**
+ * Register the spending policy of a wallet. The body is signed by the
+ * wallet itself, so only its owner can set or change its limits.
+ */
+walletsRouter.put("/:wallet/policy", async (req, res, next) => {
+  const wallet = walletSchema.safeParse(req.params.wallet);
+  const parsed = policyBody.safeParse(req.body);
+  if (!wallet.success || !parsed.success) {
+    const errors = [
+      ...(wallet.success ? [] : wallet.error.errors.map((e) => `wallet: ${e.message}`)),
+      ...(parsed.success
+        ? []
+        : parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`)),
+    ];
+    res.status(400).json({ error: { code: "VALIDATION_ERROR", message: errors.join(", ") } });
+    return;
+  }
+
+  const { issuedAt, signature, ...limits } = parsed.data;
+  const unknownAssetTypes = (limits.allowedAssetTypes ?? []).filter((a) => !getAssetTypes()[a]);
+  if (unknownAssetTypes.length > 0) {
+    res.status(400).json({
+      error: {
+        code: "INVALID_ASSET_TYPE",
+        message: `Unknown asset type(s): ${unknownAssetTypes.join(", ")}. Available: ${Object.keys(getAssetTypes()).join(", ")}`,
+      },
+    });
+    return;
+  }
+  const unknownChannels = (limits.allowedChannels ?? []).filter((c) => !getChannels()[c]);
+  if (unknownChannels.length > 0) {
+    res.status(400).json({
+      error: {
+        code: "INVALID_CHANNEL",
+        message: `Unknown channel(s): ${unknownChannels.join(", ")}. Available: ${Object.keys(getChannels()).join(", ")}`,
+      },
+    });
+    return;
+  }
+
+  try {
+    const address = wallet.data as `0x${string}`;
+    const previous = await lastIssuedAt(address);
+    if (
+      Math.abs(Date.now() - issuedAt) > MAX_SIGNATURE_SKEW_MS ||
+      (previous !== undefined && issuedAt <= previous)
+    ) {
+      res.status(400).json({
+        error: {
+          code: "STALE_POLICY",
+          message: "issuedAt must be the current time and newer than the wallet's previous policy",
+          hint: "Sign again with issuedAt set to the current time in unix milliseconds",
+        },
+      });
+      return;
+    }
+
+    const valid = await verifyTypedData({
+      address,
+      ...policyTypedData(address, limits, issuedAt),
+      signature: signature as `0x${string}`,
+    }).catch(() => false);
+    if (!valid) {
+      res.status(401).json({
+        error: {
+          code: "INVALID_SIGNATURE",
+          message: "The policy was not signed by this wallet",
+          hint: "Sign the SpendingPolicy EIP-712 message with the wallet's key",
+        },
+      });
+      return;
+    }
+
+    await registerPolicy(address, { limits, issuedAt, signature });
+    res.json(await getBudget(address));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** Limits in force, any pending loosening, and what is left to spend today. */
+walletsRouter.get("/:wallet/budget", async (req, res, next) => {
+  const wallet = walletSchema.safeParse(req.params.wallet);
+  if (!wallet.success) {
+    res.status(400).json({
+      error: { code: "VALIDATION_ERROR", message: `wallet: ${wallet.error.errors[0].message}` },
+    });
+    return;
+  }
+  try {
+    res.json(await getBudget(wallet.data));
+  } catch (err) {
+    next(err);
+  }
+});
@@ -1,64 +1,387 @@
 import express from "express";
-import type { Request, Response, NextFunction } from "express";
+import type { Request, Response, NextFunction, RequestHandler, Router } from "express";
 import { z } from "zod";
-import { paymentMiddleware, x402ResourceServer } from "@x402/express";
+import {
+  paymentMiddlewareFromHTTPServer,
+  x402HTTPResourceServer,
+  x402ResourceServer,
+} from "@x402/express";
 import { ExactEvmScheme } from "@x402/evm/exact/server";
-import { HTTPFacilitatorClient } from "@x402/core/server";
-import { createFacilitatorConfig } from "@coinbase/x402";
-import { config } from "./config.js";
+import type { FacilitatorClient, HTTPRequestContext, RoutesConfig } from "@x402/core/server";
+import type { AssetAmount, Network } from "@x402/core/types";
+import { acceptedPayments, config, type AcceptedPayment } from "./config.js";
 import { pricingRouter } from "./routes/pricing.js";
-import { healthRouter } from "./routes/health.js";
-import { purchaseHandler } from "./routes/purchase.js";
+import { createHealthRouter } from "./routes/health.js";
+import { symbolsRouter } from "./routes/symbols.js";
+import { adminRouter } from "./routes/admin.js";
+import { discoveryRouter } from "./routes/discovery.js";
+import { walletsRouter } from "./routes/wallets.js";
+import { receiptsRouter } from "./routes/receipts.js";
+import {
+  creditBalanceHandler,
+  topupHandler,
+  topupPrice,
+  topupSpend,
+  validateTopup,
+} from "./routes/credits.js";
+import {
+  purchaseHandler,
+  purchasePrice,
+  purchaseSpend,
+  quotePurchase,
+  validatePurchase,
+} from "./routes/purchase.js";
+import { renewHandler, renewalPrice, renewalSpend, validateRenewal } from "./routes/renew.js";
+import {
+  snapshotHandler,
+  snapshotPrice,
+  snapshotSpend,
+  validateSnapshot,
+} from "./routes/price.js";
 import { createLogger } from "./logger.js";
-import { getAllRouteConfigs } from "./pricing.js";
+import { instrumentFacilitator, metricsMiddleware, registry } from "./metrics.js";
+import { attachPaymentContext, payWithCredit } from "./payment.js";
+import { createDefaultFacilitator } from "./facilitator.js";
+import { receiptInBody } from "./receipts.js";
+import { setSymbolsSource, type SymbolsSource } from "./symbols.js";
+import { setLedger, type PurchaseStore } from "./ledger.js";
+import { setCredits, type CreditStore } from "./credits.js";
+import { setBlocklist, type BlocklistStore } from "./blocklist.js";
+import { enforcePolicy, setPolicies, type PolicyStore } from "./policies.js";
+import { createRateLimiter, setRateLimitStore, type RateLimitStore } from "./ratelimit.js";
+import { setPriceSource, type PriceSource } from "./prices.js";
+import {
+  getAllRouteConfigs,
+  getPricing,
+  onPricingReload,
+  type RouteConfig,
+  type SnapshotProduct,
+} from "./pricing.js";
 
 const logger = createLogger("server");
 
-export function createApp() {
-  const app = express();
-  app.use(express.json());
+/** Convert a "$1.90" USD price into units of a USD-pegged token. */
+function toAssetAmount(usd: string, asset: NonNullable<AcceptedPayment["asset"]>): AssetAmount {
+  const cents = BigInt(Math.round(Number(usd.replace("$", "")) * 100));
+  return {
+    asset: asset.address,
+    amount: ((cents * 10n ** BigInt(asset.decimals)) / 100n).toString(),
+    extra: { name: asset.name, version: asset.version },
+  };
+}
 
-  // Unprotected routes
-  app.use("/health", healthRouter);
-  app.use("/v1/pricing", pricingRouter);
-
-  // x402 facilitator: use public x402.org for testnet (no CDP keys needed),
-  // or authenticated CDP facilitator for mainnet when keys are provided.
-  const hasCdpKeys = !!(config.CDP_API_KEY_ID && config.CDP_API_KEY_SECRET);
-  const facilitatorClient = hasCdpKeys
-    ? new HTTPFacilitatorClient(
-        createFacilitatorConfig(config.CDP_API_KEY_ID, config.CDP_API_KEY_SECRET)
-      )
-    : new HTTPFacilitatorClient({ url: "https://x402.org/facilitator" });
+/** One `accepts` entry per configured payment option, all charging the same USD price. */
+function acceptsFor(price: (ctx: HTTPRequestContext) => string | Promise<string>) {
+  return acceptedPayments.map((option) => ({
+    scheme: "exact",
+    network: option.network as Network,
+    payTo: option.payTo,
+    price: option.asset
+      ? async (ctx: HTTPRequestContext) => toAssetAmount(await price(ctx), option.asset!)
+      : price,
+  }));
+}
 
-  const resourceServer = new x402ResourceServer(facilitatorClient).register(
-    "eip155:*",
-    new ExactEvmScheme()
-  );
+/** Per-call products sold, per the `snapshots` section of pricing.json. */
+function snapshotProducts(): SnapshotProduct[] {
+  return getPricing().snapshots ? ["price", "history"] : [];
+}
 
-  // Build route config for each (assetType, channel, duration) combo from pricing.json
-  const routes = getAllRouteConfigs();
-  const routeConfig: Record<string, any> = {};
+/** x402 route table for every (assetType, channel, duration) combo in pricing.json. */
+function buildPurchaseServer(
+  resourceServer: x402ResourceServer,
+  routes: RouteConfig[]
+): x402HTTPResourceServer {
+  const routeConfig: RoutesConfig = {};
   for (const r of routes) {
     routeConfig[`POST ${r.routePath}`] = {
-      accepts: [
-        {
-          scheme: "exact",
-          price: r.price,
-          network: config.X402_NETWORK,
-          payTo: config.PAYMENT_RECIPIENT_ADDRESS,
-        },
-      ],
+      // Bundle purchases are priced from the number of tickers in the body,
+      // less the store credit of the wallet the buyer says they will pay from
+      accepts: acceptsFor(
+        async (ctx) =>
+          (await quotePurchase(
+            r.assetType,
+            r.channel,
+            r.duration,
+            ctx.adapter.getBody?.(),
+            ctx.adapter.getHeader("x-wallet-address")
+          )) ?? r.price
+      ),
       description: `Purchase ${r.duration} ${r.assetType} access at ${r.channel} rate`,
       mimeType: "application/json",
     };
   }
+  routeConfig["POST /v1/credits/topup"] = {
+    // The amount to add to the balance, from the request body
+    accepts: acceptsFor((ctx) => topupPrice(ctx.adapter.getBody?.())),
+    description: "Top up the prepaid balance purchases can be paid from",
+    mimeType: "application/json",
+  };
+  routeConfig["POST /v1/renew"] = {
+    // Extension plus prorated upgrade fee, priced from the request body
+    accepts: acceptsFor((ctx) => renewalPrice(ctx.adapter.getBody?.())),
+    description: "Extend or upgrade an existing purchase",
+    mimeType: "application/json",
+  };
+  for (const product of snapshotProducts()) {
+    routeConfig[`GET /v1/${product}/[ticker]`] = {
+      // Per call, priced from the asset type of the ticker in the path
+      accepts: acceptsFor((ctx) => snapshotPrice(product, ctx.adapter.getPath())),
+      description:
+        product === "price" ? "Latest verified price of one feed" : "OHLC price history of one feed",
+      mimeType: "application/json",
+    };
+  }
+  return new x402HTTPResourceServer(resourceServer, routeConfig);
+}
 
-  app.use(paymentMiddleware(routeConfig, resourceServer));
+/**
+ * Fetch the supported payment kinds from the facilitator, retrying with
+ * backoff while it is unreachable so the gateway still starts (and reports
+ * not ready) during a facilitator outage. Retries stop once `active`
+ * returns false, e.g. when the routes have been rebuilt again.
+ */
+function syncFacilitator(
+  httpServer: x402HTTPResourceServer,
+  active: () => boolean = () => true
+): () => boolean {
+  let synced = false;
+  const attempt = (n: number) => {
+    httpServer.initialize().then(
+      () => {
+        synced = true;
+        if (n > 0) logger.info("Facilitator reachable — payments enabled");
+      },
+      (err) => {
+        if (!active()) return;
+        const retryInMs = Math.min(30_000, 1_000 * 2 ** n);
+        logger.error({ err, retryInMs }, "Could not sync with facilitator");
+        setTimeout(() => attempt(n + 1), retryInMs).unref();
+      }
+    );
+  };
+  attempt(0);
+  return () => synced;
+}
 
+const windowMs = config.RATE_LIMIT_WINDOW_SECONDS * 1000;
+
+// Pricing and symbol lookups build large responses; 402 challenges cost a
+// route match and, on the paid retry, a facilitator verification
+const discoveryLimit = createRateLimiter({
+  name: "discovery",
+  limit: config.RATE_LIMIT_DISCOVERY_PER_IP,
+  windowMs,
+  key: (req) => req.ip,
+});
+const purchaseLimit = createRateLimiter({
+  name: "purchase",
+  limit: config.RATE_LIMIT_PURCHASE_PER_IP,
+  windowMs,
+  key: (req) => req.ip,
+});
+// Keyed on the verified payer, so a forged header cannot spend someone
+// else's budget; a 429 here means the payment is not settled
+const walletLimit = createRateLimiter({
+  name: "wallet",
+  limit: config.RATE_LIMIT_PURCHASE_PER_WALLET,
+  windowMs,
+  key: (req) => req.payment?.payer.toLowerCase(),
+});
+
+/**
+ * Payment middleware plus one purchase handler per priced route, the
+ * top-up, renewal and per-call price and history handlers.
+ */
+function buildPurchaseRouter(
+  payment: RequestHandler,
+  routes: RouteConfig[],
+  synced: () => boolean
+): Router {
+  const router = express.Router();
+  // Purchases paid from the prepaid balance never reach the facilitator
+  const requireFacilitator: RequestHandler = (req, res, next) => {
+    if (synced() || req.payment) return next();
+    res.status(503).json({
+      error: {
+        code: "FACILITATOR_UNAVAILABLE",
+        message: "Payments are temporarily unavailable — try again shortly",
+      },
+    });
+  };
+  // Invalid bodies, unknown purchases and requests the declared wallet's
+  // spending policy forbids are rejected before a payment challenge is
+  // issued. Purchases with a credit authorization the balance covers are
+  // paid here and skip the challenge.
   for (const r of routes) {
-    app.post(r.routePath, purchaseHandler(r.assetType, r.channel, r.duration));
+    router.post(
+      r.routePath,
+      validatePurchase(r.assetType),
+      enforcePolicy("challenge", purchaseSpend(r.assetType, r.channel, r.duration)),
+      payWithCredit(purchasePrice(r.assetType, r.channel, r.duration)),
+      requireFacilitator
+    );
   }
+  router.post(
+    "/v1/credits/topup",
+    validateTopup,
+    enforcePolicy("challenge", topupSpend),
+    requireFacilitator
+  );
+  router.post(
+    "/v1/renew",
+    validateRenewal,
+    enforcePolicy("challenge", renewalSpend),
+    requireFacilitator
+  );
+  for (const product of snapshotProducts()) {
+    router.get(
+      `/v1/${product}/:ticker`,
+      validateSnapshot(product),
+      enforcePolicy("challenge", snapshotSpend(product)),
+      requireFacilitator
+    );
+  }
+  router.use(receiptInBody);
+  // Express 4 ignores rejected promises; route them to the error handler
+  router.use((req, res, next) => {
+    if (req.payment?.scheme === "credit") return next();
+    Promise.resolve(payment(req, res, next)).catch(next);
+  });
+  for (const r of routes) {
+    router.post(
+      r.routePath,
+      attachPaymentContext,
+      walletLimit,
+      enforcePolicy("payment", purchaseSpend(r.assetType, r.channel, r.duration)),
+      purchaseHandler(r.assetType, r.channel, r.duration)
+    );
+  }
+  router.post(
+    "/v1/credits/topup",
+    attachPaymentContext,
+    walletLimit,
+    enforcePolicy("payment", topupSpend),
+    topupHandler
+  );
+  router.post(
+    "/v1/renew",
+    attachPaymentContext,
+    walletLimit,
+    enforcePolicy("payment", renewalSpend),
+    renewHandler
+  );
+  for (const product of snapshotProducts()) {
+    router.get(
+      `/v1/${product}/:ticker`,
+      attachPaymentContext,
+      walletLimit,
+      enforcePolicy("payment", snapshotSpend(product)),
+      snapshotHandler(product)
+    );
+  }
+  return router;
+}
+
+export interface AppOptions {
+  /** x402 facilitator; defaults to x402.org, or CDP when keys are configured. */
+  facilitator?: FacilitatorClient;
+  /** Where symbols are loaded from; takes effect on the next `initSymbols()`. */
+  symbolsSource?: SymbolsSource;
+  /** Purchase ledger; defaults to the one opened by `initLedger()`. */
+  ledger?: PurchaseStore;
+  /** Store-credit backend; defaults to the one opened by `initCredits()`. */
+  credits?: CreditStore;
+  /** Blocked wallets; defaults to the list opened by `initBlocklist()`. */
+  blocklist?: BlocklistStore;
+  /** Wallet spending policies; defaults to the store opened by `initPolicies()`. */
+  policies?: PolicyStore;
+  /** Rate limit counters; in-memory per process by default. */
+  rateLimitStore?: RateLimitStore;
+  /** Upstream for GET /v1/price and /v1/history; Pyth Pro by default. */
+  priceSource?: PriceSource;
+}
+
+/**
+ * Build the gateway app. Call `close()` when the server it is mounted on
+ * closes, so it stops rebuilding its routes on pricing reloads and stops
+ * retrying their facilitator sync.
+ */
+export function createApp(options: AppOptions = {}) {
+  if (options.symbolsSource) setSymbolsSource(options.symbolsSource);
+  if (options.ledger) setLedger(options.ledger);
+  if (options.credits) setCredits(options.credits);
+  if (options.blocklist) setBlocklist(options.blocklist);
+  if (options.policies) setPolicies(options.policies);
+  if (options.rateLimitStore) setRateLimitStore(options.rateLimitStore);
+  if (options.priceSource) setPriceSource(options.priceSource);
+
+  const app = express();
+  app.set("trust proxy", config.TRUST_PROXY);
+  app.use(metricsMiddleware);
+  app.use(express.json());
+
+  const facilitatorClient = instrumentFacilitator(
+    options.facilitator ?? createDefaultFacilitator()
+  );
+
+  // Unprotected routes
+  app.use("/health", createHealthRouter(facilitatorClient));
+  app.use("/v1/pricing", discoveryLimit, pricingRouter);
+  app.use("/v1/symbols", discoveryLimit, symbolsRouter);
+  app.use("/v1/wallets", discoveryLimit, walletsRouter);
+  app.use("/v1/receipts", discoveryLimit, receiptsRouter);
+  app.get("/v1/credits/:wallet", discoveryLimit, creditBalanceHandler);
+  app.use(["/openapi.json", "/.well-known/x402", "/.well-known/jwks.json"], discoveryLimit);
+  app.use(discoveryRouter);
+  app.use("/admin", adminRouter);
+  app.get("/metrics", async (req, res) => {
+    if (config.METRICS_TOKEN && req.get("authorization") !== `Bearer ${config.METRICS_TOKEN}`) {
+      res.status(401).json({
+        error: { code: "UNAUTHORIZED", message: "Missing or invalid metrics credentials" },
+      });
+      return;
+    }
+    res.set("Content-Type", registry.contentType).send(await registry.metrics());
+  });
+
+  const resourceServer = new x402ResourceServer(facilitatorClient).register(
+    "eip155:*",
+    new ExactEvmScheme()
+  );
+
+  // Purchase routes are rebuilt whenever pricing.json reloads. Each request
+  // dispatches to whichever router is current, so the payment route table and
+  // handlers are always swapped together, and together with the pricing that
+  // /v1/pricing advertises. Until the new routes sync with the facilitator,
+  // paid requests get FACILITATOR_UNAVAILABLE rather than a 404.
+  let generation = 0;
+  let closed = false;
+  const initialRoutes = getAllRouteConfigs();
+  const initialServer = buildPurchaseServer(resourceServer, initialRoutes);
+  let purchaseRouter = buildPurchaseRouter(
+    paymentMiddlewareFromHTTPServer(initialServer, undefined, undefined, false),
+    initialRoutes,
+    syncFacilitator(initialServer, () => generation === 0 && !closed)
+  );
+
+  const stopReloading = onPricingReload(() => {
+    const routes = getAllRouteConfigs();
+    const httpServer = buildPurchaseServer(resourceServer, routes);
+    const current = ++generation;
+    purchaseRouter = buildPurchaseRouter(
+      paymentMiddlewareFromHTTPServer(httpServer, undefined, undefined, false),
+      routes,
+      syncFacilitator(httpServer, () => generation === current && !closed)
+    );
+    logger.info({ routes: routes.length }, "Purchase routes rebuilt");
+  });
+
+  app.use(
+    ["/v1/purchase", "/v1/credits/topup", "/v1/renew", "/v1/price", "/v1/history"],
+    purchaseLimit
+  );
+  app.use((req, res, next) => purchaseRouter(req, res, next));
 
   // Global error handler
   app.use(
@@ -85,5 +408,10 @@ export function createApp() {
     }
   );
 
-  return app;
+  return Object.assign(app, {
+    close: () => {
+      closed = true;
+      stopReloading();
+    },
+  });
 }
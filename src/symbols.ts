@@ -1,5 +1,9 @@
+import fs from "node:fs";
+import path from "node:path";
+import { config } from "./config.js";
 import { createLogger } from "./logger.js";
-import { getAssetTypes } from "./pricing.js";
+import { getAssetTypes, onPricingReload } from "./pricing.js";
+import { recordSymbolCounts } from "./metrics.js";
 
 const logger = createLogger("symbols");
 
@@ -20,11 +24,39 @@ const ASSET_TYPE_MAP: Record<string, string> = {
 
 export interface TickerInfo {
   feedId: number;
+  /** Canonical unique ID derived from the full symbol, e.g. "Equity.US.AAPL-USD". */
+  id: string;
+  /** Pricing asset type, or the raw API type for feeds we don't sell. */
   assetType: string;
+  /** Full Pyth symbol, e.g. "Equity.US.AAPL/USD". */
+  symbol: string;
+  /** Short ticker derived from the symbol, e.g. "AAPL-USD". */
+  ticker: string | null;
+  /** `ticker` when no other purchasable feed of the asset type shares it. */
+  alias: string | null;
+  description: string | null;
+  /** Price exponent: the real price is `price * 10^exponent`. */
+  exponent: number | null;
+  state: string;
+  quoteCurrency: string | null;
+  /** Trading schedule as published by Pyth (timezone;weekly sessions;holidays). */
+  marketHours: string | null;
+  /** Stable and of a configured asset type — can be bought. */
+  purchasable: boolean;
 }
 
-// Nested map: assetType → ticker → TickerInfo
+// Nested map: assetType → alias (or canonical ID) → TickerInfo (purchasable feeds only)
 let byAssetType: Record<string, Record<string, TickerInfo>> = {};
+// Lowercased canonical ID or full symbol → purchasable feed
+let byRef = new Map<string, TickerInfo>();
+let byFeedId = new Map<number, TickerInfo>();
+// assetType → short ticker → canonical IDs of the feeds sharing it
+let ambiguousTickers: Record<string, Record<string, string[]>> = {};
+
+// Every listed feed, purchasable or not, for `GET /v1/symbols`
+let allFeeds: TickerInfo[] = [];
+// feedId → lowercase words from symbol, ticker and description
+let searchIndex = new Map<number, string[]>();
 
 /**
  * Derive a human-readable ticker from the Pyth symbol string.
@@ -46,64 +78,328 @@ function parseTickerName(symbol: string): string | null {
   return `${base}-${quote}`;
 }
 
-/** Fetch symbols from the Pyth Lazer API and cache locally. */
-export async function initSymbols(): Promise<void> {
-  const res = await fetch(SYMBOLS_API_URL);
-  if (!res.ok) {
-    throw new Error(
-      `Failed to fetch symbols: ${res.status} ${res.statusText}`
-    );
-  }
-  const data: any[] = await res.json();
+/**
+ * Canonical feed ID: the full Pyth symbol with "/" replaced so it can be used
+ * in query strings and paths. Unlike the short ticker it keeps the venue and
+ * sub-namespace, so it is unique.
+ *   "Crypto.BTC/USD"         → "Crypto.BTC-USD"
+ *   "Equity.US.AAPL/USD"     → "Equity.US.AAPL-USD"
+ *   "Crypto.NAV.ACRED/USD"   → "Crypto.NAV.ACRED-USD"
+ */
+function canonicalId(symbol: string): string {
+  return symbol.replaceAll("/", "-");
+}
+
+/** Raw entry from the symbols API (only the fields we use). */
+export interface SymbolEntry {
+  pyth_lazer_id: number;
+  symbol: string;
+  asset_type: string;
+  state: string;
+  description?: string | null;
+  exponent?: number | null;
+  quote_currency?: string | null;
+  schedule?: string | null;
+}
 
+const SNAPSHOT_FILE = path.resolve(import.meta.dirname, "..", "data", "symbols.json");
+
+// Last fetched symbols list — kept to diff refreshes and to rebuild the
+// registry when pricing.json changes the set of asset types.
+let lastEntries: SymbolEntry[] = [];
+// When and from where the registry was last replaced
+let lastLoad: { at: Date; origin: string } | null = null;
+
+/** Where the symbols list comes from. */
+export interface SymbolsSource {
+  /** Label used in logs. */
+  name: string;
+  load(): Promise<SymbolEntry[]>;
+  /** Save successful loads to the on-disk snapshot used as a startup fallback. */
+  snapshot: boolean;
+}
+
+/** The live Pyth Lazer symbols API. */
+export const apiSymbolsSource: SymbolsSource = {
+  name: "api",
+  snapshot: true,
+  async load() {
+    const res = await fetch(SYMBOLS_API_URL);
+    if (!res.ok) {
+      throw new Error(
+        `Failed to fetch symbols: ${res.status} ${res.statusText}`
+      );
+    }
+    return res.json();
+  },
+};
+
+/** Fixed symbols list, or a JSON file in the API's format, for tests and offline runs. */
+export function createFixtureSymbolsSource(fixture: SymbolEntry[] | string): SymbolsSource {
+  return {
+    name: "fixture",
+    snapshot: false,
+    async load() {
+      if (typeof fixture !== "string") return fixture;
+      return JSON.parse(await fs.promises.readFile(fixture, "utf-8"));
+    },
+  };
+}
+
+let source: SymbolsSource = apiSymbolsSource;
+
+/** Swap where `initSymbols` and refreshes load symbols from. */
+export function setSymbolsSource(next: SymbolsSource): void {
+  source = next;
+}
+
+function toTickerInfo(item: SymbolEntry, assetTypes: Record<string, unknown>): TickerInfo {
+  const mappedType = ASSET_TYPE_MAP[item.asset_type];
+  const ticker = parseTickerName(item.symbol);
+  const slashIdx = item.symbol.indexOf("/");
+  return {
+    feedId: item.pyth_lazer_id,
+    id: canonicalId(item.symbol),
+    assetType: mappedType ?? item.asset_type,
+    symbol: item.symbol,
+    ticker,
+    alias: null,
+    description: item.description ?? null,
+    exponent: item.exponent ?? null,
+    state: item.state,
+    quoteCurrency:
+      item.quote_currency ?? (slashIdx === -1 ? null : item.symbol.substring(slashIdx + 1)),
+    marketHours: item.schedule ?? null,
+    purchasable: item.state === "stable" && !!mappedType && !!assetTypes[mappedType],
+  };
+}
+
+function searchWords(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+interface Registry {
+  byAssetType: Record<string, Record<string, TickerInfo>>;
+  byRef: Map<string, TickerInfo>;
+  byFeedId: Map<number, TickerInfo>;
+  ambiguousTickers: Record<string, Record<string, string[]>>;
+  allFeeds: TickerInfo[];
+  searchIndex: Map<number, string[]>;
+}
+
+/**
+ * Build the registry from a symbols list. Only stable feeds are purchasable.
+ * Every feed is reachable by its canonical ID; the short ticker is an alias
+ * only when exactly one purchasable feed of the asset type maps to it.
+ */
+function buildRegistry(data: SymbolEntry[]): Registry {
   const assetTypes = getAssetTypes();
-  const map: Record<string, Record<string, TickerInfo>> = {};
+  const feeds: TickerInfo[] = [];
+  const index = new Map<number, string[]>();
+  const refs = new Map<string, TickerInfo>();
+  const feedIds = new Map<number, TickerInfo>();
+  // assetType → ticker → feeds claiming it
+  const claims: Record<string, Record<string, TickerInfo[]>> = {};
 
   for (const item of data) {
-    if (item.state !== "stable") continue;
+    const info = toTickerInfo(item, assetTypes);
+    // Guard against a repeated symbol so neither feed becomes unreachable
+    if (refs.has(info.id.toLowerCase())) info.id = `${info.id}~${info.feedId}`;
+    feeds.push(info);
+    index.set(
+      info.feedId,
+      searchWords(`${info.symbol} ${info.ticker ?? ""} ${info.description ?? ""}`)
+    );
+    if (!info.purchasable) continue;
+
+    refs.set(info.id.toLowerCase(), info);
+    if (!refs.has(info.symbol.toLowerCase())) refs.set(info.symbol.toLowerCase(), info);
+    feedIds.set(info.feedId, info);
+    if (info.ticker) {
+      claims[info.assetType] ??= {};
+      (claims[info.assetType][info.ticker] ??= []).push(info);
+    }
+  }
 
-    const mappedType = ASSET_TYPE_MAP[item.asset_type];
-    if (!mappedType || !assetTypes[mappedType]) continue;
+  const map: Record<string, Record<string, TickerInfo>> = {};
+  const ambiguous: Record<string, Record<string, string[]>> = {};
+  for (const info of feedIds.values()) {
+    const sharing = info.ticker ? claims[info.assetType][info.ticker] : [];
+    if (sharing.length === 1) info.alias = info.ticker;
+    else if (info.ticker) {
+      ambiguous[info.assetType] ??= {};
+      ambiguous[info.assetType][info.ticker] = sharing.map((f) => f.id);
+    }
+    map[info.assetType] ??= {};
+    map[info.assetType][info.alias ?? info.id] = info;
+  }
 
-    const ticker = parseTickerName(item.symbol);
-    if (!ticker) continue;
+  return {
+    byAssetType: map,
+    byRef: refs,
+    byFeedId: feedIds,
+    ambiguousTickers: ambiguous,
+    allFeeds: feeds,
+    searchIndex: index,
+  };
+}
 
-    if (!map[mappedType]) map[mappedType] = {};
+/** Log feeds that were listed, delisted or changed state between two lists. */
+function logChanges(previous: SymbolEntry[], next: SymbolEntry[]) {
+  const before = new Map(previous.map((e) => [e.pyth_lazer_id, e]));
+  const after = new Map(next.map((e) => [e.pyth_lazer_id, e]));
 
-    // First-seen wins (avoids overwriting e.g. crypto BTC-USD with a funding-rate BTC-USD)
-    if (!map[mappedType][ticker]) {
-      map[mappedType][ticker] = {
-        feedId: item.pyth_lazer_id,
-        assetType: mappedType,
-      };
+  for (const [feedId, entry] of after) {
+    const old = before.get(feedId);
+    if (!old) {
+      logger.info(
+        { event: "feed_added", feedId, symbol: entry.symbol, state: entry.state },
+        "Feed added"
+      );
+    } else if (old.state !== entry.state) {
+      logger.info(
+        {
+          event: "feed_state_changed",
+          feedId,
+          symbol: entry.symbol,
+          from: old.state,
+          to: entry.state,
+        },
+        entry.state === "stable"
+          ? "Feed became stable — now purchasable"
+          : "Feed left stable state — no longer purchasable"
+      );
     }
   }
+  for (const [feedId, entry] of before) {
+    if (!after.has(feedId)) {
+      logger.info(
+        { event: "feed_removed", feedId, symbol: entry.symbol },
+        "Feed removed"
+      );
+    }
+  }
+}
+
+/** Atomically replace the registry with one built from `data`. */
+function applySymbols(data: SymbolEntry[], origin: string) {
+  const registry = buildRegistry(data);
+  const map = registry.byAssetType;
+  ({ byAssetType, byRef, byFeedId, ambiguousTickers, allFeeds, searchIndex } = registry);
+  lastEntries = data;
+  lastLoad = { at: new Date(), origin };
 
-  byAssetType = map;
-  const total = Object.values(map).reduce(
-    (sum, m) => sum + Object.keys(m).length,
-    0
+  const byType = Object.fromEntries(
+    Object.entries(map).map(([k, v]) => [k, Object.keys(v).length])
   );
+  recordSymbolCounts(byType);
+  const total = Object.values(byType).reduce((sum, n) => sum + n, 0);
+  const ambiguous = Object.values(registry.ambiguousTickers).flatMap(Object.keys);
   logger.info(
     {
+      source: origin,
       total,
-      byType: Object.fromEntries(
-        Object.entries(map).map(([k, v]) => [k, Object.keys(v).length])
-      ),
+      ...(ambiguous.length > 0 && { ambiguousTickers: ambiguous }),
+      byType,
     },
-    "Symbols loaded from API"
+    `Symbols loaded from ${origin}`
   );
 }
 
-/** Look up a single ticker within an asset type. */
+function writeSnapshot(data: SymbolEntry[]) {
+  try {
+    fs.mkdirSync(path.dirname(SNAPSHOT_FILE), { recursive: true });
+    fs.writeFileSync(SNAPSHOT_FILE, JSON.stringify(data));
+  } catch (err) {
+    logger.warn({ err, file: SNAPSHOT_FILE }, "Could not write symbols snapshot");
+  }
+}
+
+/**
+ * Load symbols from the current source (the Pyth Lazer API by default) and
+ * cache locally. Falls back to the last on-disk snapshot when the API is
+ * unreachable.
+ */
+export async function initSymbols(): Promise<void> {
+  try {
+    const data = await source.load();
+    applySymbols(data, source.name);
+    if (source.snapshot) writeSnapshot(data);
+  } catch (err) {
+    if (!source.snapshot || !fs.existsSync(SNAPSHOT_FILE)) throw err;
+    logger.warn({ err, file: SNAPSHOT_FILE }, "Symbols API unreachable — using snapshot");
+    applySymbols(JSON.parse(fs.readFileSync(SNAPSHOT_FILE, "utf-8")), "snapshot");
+  }
+}
+
+/** Re-fetch symbols, log what changed and swap the registry. */
+export async function refreshSymbols(): Promise<void> {
+  const data = await source.load();
+  logChanges(lastEntries, data);
+  applySymbols(data, source.name);
+  if (source.snapshot) writeSnapshot(data);
+}
+
+/** Size and age of the registry, for health checks. */
+export function getSymbolsStatus(): { feeds: number; loadedAt: Date | null; origin: string | null } {
+  return { feeds: allFeeds.length, loadedAt: lastLoad?.at ?? null, origin: lastLoad?.origin ?? null };
+}
+
+/** Refresh the registry every SYMBOLS_REFRESH_SECONDS (0 disables). */
+export function startSymbolRefresh(): void {
+  if (config.SYMBOLS_REFRESH_SECONDS <= 0) return;
+  const tick = () => {
+    refreshSymbols()
+      .catch((err) => logger.error({ err }, "Symbol refresh failed — keeping current registry"))
+      .finally(() => {
+        setTimeout(tick, config.SYMBOLS_REFRESH_SECONDS * 1000).unref();
+      });
+  };
+  setTimeout(tick, config.SYMBOLS_REFRESH_SECONDS * 1000).unref();
+}
+
+// New or removed asset types in pricing.json change which feeds are listed
+onPricingReload(() => {
+  if (lastEntries.length > 0) {
+    ({ byAssetType, byRef, byFeedId, ambiguousTickers, allFeeds, searchIndex } =
+      buildRegistry(lastEntries));
+    recordSymbolCounts(
+      Object.fromEntries(Object.entries(byAssetType).map(([k, v]) => [k, Object.keys(v).length]))
+    );
+  }
+});
+
+export type FeedResolution =
+  | { feed: TickerInfo }
+  | { error: "NOT_FOUND" }
+  | { error: "AMBIGUOUS"; candidates: string[] };
+
+/**
+ * Resolve a purchasable feed within an asset type. `ref` may be a feed ID,
+ * canonical ID, full Pyth symbol or unambiguous short ticker.
+ */
+export function resolveFeed(assetType: string, ref: string | number): FeedResolution {
+  const feed =
+    typeof ref === "number"
+      ? byFeedId.get(ref)
+      : (byRef.get(ref.toLowerCase()) ?? byAssetType[assetType]?.[ref.toUpperCase()]);
+  if (feed?.assetType === assetType) return { feed };
+
+  const candidates =
+    typeof ref === "string" ? ambiguousTickers[assetType]?.[ref.toUpperCase()] : undefined;
+  return candidates ? { error: "AMBIGUOUS", candidates } : { error: "NOT_FOUND" };
+}
+
+/** Look up a single feed within an asset type (see `resolveFeed`). */
 export function getTickerInfo(
   assetType: string,
-  ticker: string
+  ticker: string | number
 ): TickerInfo | undefined {
-  return byAssetType[assetType]?.[ticker];
+  const result = resolveFeed(assetType, ticker);
+  return "feed" in result ? result.feed : undefined;
 }
 
-/** All tickers for a given asset type (empty object if none). */
+/** All feeds for a given asset type, keyed by alias or canonical ID (empty object if none). */
 export function getTickersForAssetType(
   assetType: string
 ): Record<string, TickerInfo> {
@@ -114,3 +410,126 @@ export function getTickersForAssetType(
 export function getAllTickers(): Record<string, Record<string, TickerInfo>> {
   return byAssetType;
 }
+
+// Query words that name an asset type rather than appear in feed metadata
+const ASSET_TYPE_SYNONYMS: Record<string, string> = {
+  stock: "equity",
+  stocks: "equity",
+  share: "equity",
+  shares: "equity",
+  equities: "equity",
+  coin: "crypto",
+  token: "crypto",
+  forex: "fx",
+  currency: "fx",
+  metal: "commodity",
+  metals: "commodity",
+  commodities: "commodity",
+};
+
+/** Levenshtein distance, giving up early once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        prev[j] + 1,
+        row[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Score one query word against a feed: exact word 3, prefix or asset-type
+ * synonym 2, typo-tolerant match 1, no match 0.
+ */
+function wordScore(word: string, feed: TickerInfo, words: string[]): number {
+  let best = 0;
+  if (word === feed.assetType || ASSET_TYPE_SYNONYMS[word] === feed.assetType) best = 2;
+  const maxTypos = word.length >= 7 ? 2 : word.length >= 4 ? 1 : 0;
+  for (const w of words) {
+    if (w === word) return 3;
+    if (w.startsWith(word)) best = Math.max(best, 2);
+    else if (best === 0 && maxTypos > 0 && editDistance(word, w, maxTypos) <= maxTypos) {
+      best = 1;
+    }
+  }
+  return best;
+}
+
+export interface SymbolQuery {
+  /** Free text: ticker, canonical ID, symbol or description words; prefixes and typos match. */
+  q?: string;
+  assetType?: string;
+  quoteCurrency?: string;
+  state?: string;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Search all listed feeds. With `q`, every query word must match and results
+ * are ranked by relevance; otherwise they are sorted by symbol.
+ */
+export function searchSymbols(query: SymbolQuery): { total: number; results: TickerInfo[] } {
+  const quote = query.quoteCurrency?.toUpperCase();
+  const filtered = allFeeds.filter(
+    (f) =>
+      (!query.assetType || f.assetType === query.assetType) &&
+      (!quote || f.quoteCurrency?.toUpperCase() === quote) &&
+      (!query.state || f.state === query.state)
+  );
+
+  const text = query.q?.trim().toLowerCase() ?? "";
+  const queryWords = searchWords(text);
+  let ranked: TickerInfo[];
+  if (queryWords.length === 0) {
+    ranked = filtered.sort((a, b) => a.symbol.localeCompare(b.symbol));
+  } else {
+    const scored: Array<{ feed: TickerInfo; score: number }> = [];
+    for (const feed of filtered) {
+      const words = searchIndex.get(feed.feedId) ?? [];
+      let score = 0;
+      for (const word of queryWords) {
+        const s = wordScore(word, feed, words);
+        if (s === 0) {
+          score = 0;
+          break;
+        }
+        score += s;
+      }
+      if (score === 0) continue;
+      // An exact ticker or symbol beats any partial match
+      if (
+        feed.ticker?.toLowerCase() === text ||
+        feed.id.toLowerCase() === text ||
+        feed.symbol.toLowerCase() === text
+      ) {
+        score += 100;
+      }
+      scored.push({ feed, score });
+    }
+    ranked = scored
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          Number(b.feed.purchasable) - Number(a.feed.purchasable) ||
+          a.feed.symbol.localeCompare(b.feed.symbol)
+      )
+      .map((s) => s.feed);
+  }
+
+  return {
+    total: ranked.length,
+    results: ranked.slice(query.offset, query.offset + query.limit),
+  };
+}
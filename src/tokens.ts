@@ -0,0 +1,96 @@
+import crypto from "node:crypto";
+import { config } from "./config.js";
+import { createLogger } from "./logger.js";
+
+const logger = createLogger("tokens");
+
+/** Claims carried by a per-purchase access token. */
+export interface AccessTokenClaims {
+  /** Unique token ID — one per purchase. */
+  jti: string;
+  /** Feed IDs the buyer paid for. */
+  feedIds: number[];
+  /** Pricing channel slug (e.g. "200ms"). */
+  channel: string;
+  /** Pyth Pro WebSocket channel (e.g. "fixed_rate@200ms"). */
+  wsChannel: string;
+  /** Issued-at, unix seconds. */
+  iat: number;
+  /** Not-before, unix seconds; set when the paid window starts after issuance. */
+  nbf?: number;
+  /** Expiry, unix seconds. */
+  exp: number;
+}
+
+// Without a configured secret, tokens are signed with a per-process key and
+// stop verifying after a restart.
+const secret = config.ACCESS_TOKEN_SECRET ?? crypto.randomBytes(32).toString("hex");
+if (!config.ACCESS_TOKEN_SECRET) {
+  logger.warn("ACCESS_TOKEN_SECRET not set — using an ephemeral signing key");
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * Mint a signed access token scoped to the purchased feeds, channel and
+ * duration. Format: `<base64url(claims)>.<base64url(hmac-sha256)>`.
+ */
+export function issueAccessToken(params: {
+  feedIds: number[];
+  channel: string;
+  wsChannel: string;
+  durationMs: number;
+  /** Start of the paid window when it is not now (e.g. the next market open). */
+  startsAt?: Date;
+  /** Token ID reserved before the purchase, e.g. by a balance drawdown. */
+  id?: string;
+}): { token: string; claims: AccessTokenClaims } {
+  const iat = Math.floor(Date.now() / 1000);
+  const start = params.startsAt ? Math.floor(params.startsAt.getTime() / 1000) : iat;
+  const claims: AccessTokenClaims = {
+    jti: params.id ?? crypto.randomUUID(),
+    feedIds: params.feedIds,
+    channel: params.channel,
+    wsChannel: params.wsChannel,
+    iat,
+    ...(start > iat && { nbf: start }),
+    exp: start + Math.floor(params.durationMs / 1000),
+  };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return { token: `${payload}.${sign(payload)}`, claims };
+}
+
+/**
+ * Verify a token's signature and expiry.
+ * Returns the claims, or undefined if the token is malformed, forged or expired.
+ * Pass `ignoreExpiry` when the caller checks expiry against the ledger instead
+ * (renewals extend the entitlement without reissuing the token).
+ */
+export function verifyAccessToken(
+  token: string,
+  options: { ignoreExpiry?: boolean } = {}
+): AccessTokenClaims | undefined {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return undefined;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return undefined;
+  }
+
+  let claims: AccessTokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+  } catch {
+    return undefined;
+  }
+
+  if (typeof claims.exp !== "number") return undefined;
+  if (!options.ignoreExpiry && claims.exp * 1000 <= Date.now()) {
+    return undefined;
+  }
+  return claims;
+}
@@ -0,0 +1,38 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+    // config.ts validates the environment on import
+    env: {
+      PAYMENT_RECIPIENT_ADDRESS: "0x209693Bc6afc0C5328bA36FaF03C514EF312287C",
+      PYTH_PRO_ACCESS_TOKEN: "test-upstream-token",
+      X402_NETWORK: "eip155:84532",
+      // Default USDC on two networks plus a custom token with its own recipient
+      X402_ACCEPTS: JSON.stringify([
+        { network: "eip155:84532" },
+        { network: "eip155:8453", payTo: "0x00000000000000000000000000000000000000b8" },
+        {
+          network: "eip155:84532",
+          payTo: "0x00000000000000000000000000000000000000c1",
+          asset: {
+            address: "0x00000000000000000000000000000000000000d1",
+            decimals: 18,
+            name: "Test Dollar",
+            version: "1",
+            symbol: "TUSD",
+          },
+        },
+      ]),
+      ADMIN_API_KEY: "test-admin-key-0123456789abcdef0123",
+      // Every test shares one client IP; limits are exercised in ratelimit.test.ts
+      RATE_LIMIT_PURCHASE_PER_IP: "0",
+      RATE_LIMIT_PURCHASE_PER_WALLET: "0",
+      RATE_LIMIT_DISCOVERY_PER_IP: "0",
+      LEDGER_DRIVER: "memory",
+      SYMBOLS_REFRESH_SECONDS: "0",
+      NODE_ENV: "test",
+      LOG_LEVEL: "silent",
+    },
+  },
+});